@@ -1,20 +1,60 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Layout from './components/Layout';
 import Flashcard from './components/Flashcard';
-import { fetchWordDetails, getDailyReadings } from './services/geminiService';
-import { AppState, ViewState, WordData, ReadingArticle } from './types';
-import { getStoredState, saveStoredState } from './utils/db';
-import { calculateNextReview, getReviewQueue } from './utils/srs';
+import ReviewHistory from './components/ReviewHistory';
+import EnrichmentQueuePanel from './components/EnrichmentQueuePanel';
+import Quiz from './components/Quiz';
+import PracticeSession from './components/PracticeSession';
+import ReverseCard from './components/ReverseCard';
+import GroupsView from './components/GroupsView';
+import PassageReader from './components/PassageReader';
+import WordPeek from './components/WordPeek';
+import ComprehensionSession from './components/ComprehensionSession';
+import DeckTransferPanel from './components/DeckTransferPanel';
+import BackupMergePreview from './components/BackupMergePreview';
+import StatsView from './components/StatsView';
+import GoalRing from './components/GoalRing';
+import { getDailyReadings, generatePracticeItems, groupWordsByMeaning, generateReadingPassage, adaptArticlePassage, generateComprehensionQuestions } from './services/geminiService';
+import { DICTIONARY_PROVIDERS } from './services/dictionaryProviders';
+import { enrichWord, prefetchWords, isAbortError, PRIORITY } from './services/enrichment';
+import { subscribeConnectivity, ConnectivityStatus, isOfflineError } from './services/connectivity';
+import { applyWordDetails, validatePracticeItems, validateWordGroups, validateReadingPassage, validateRcQuestions, validateReadingArticles, ValidatedWordDetails } from './utils/validation';
+import { AppState, ViewState, WordData, ReadingArticle, SchedulerId, ReviewAnswer, ReviewLogEntry, WordReview, CardDirection, DictionaryProviderId, EnrichmentJob, PracticeItem, WordCluster, ReadingPassage, RcAttempt, RcQuestion, DailyReadings, LibraryFilter } from './types';
+import { 
+  getStoredState, saveStoredState, normalizeState, saveWords, saveSettings, saveWordOrder, saveWordImage, addReviewLogEntry,
+  getEnrichmentJobs, saveEnrichmentJobs, deleteEnrichmentJobs, getWordGroups, saveWordGroups, getReadingPassages, saveReadingPassages, getRcAttempts, saveRcAttempts, getDailyReadingsHistory, saveDailyReadings, deleteDailyReadings, subscribeSaveStatus, retryPendingSaves, pruneGeneratedImages, hasUnsavedChanges, SaveStatus
+} from './utils/db';
+import { 
+  calculateNextReview, getReviewQueue, getReverseQueue, getReviewState, withReviewState, migrateWordsToScheduler, withSchedulingFrom, isLapse, SCHEDULERS
+} from './utils/srs';
+import { buildQuiz, QuizQuestion } from './utils/quiz';
+import { getAttemptsFor } from './utils/comprehension';
+import { ImportedWord, DeckExportFormat, toDelimitedText, toQuizletText } from './utils/deckFormats';
+import { buildApkg } from './utils/anki';
+import { mergeBackup, BackupMerge } from './utils/backupMerge';
+import { getDailyAllowance, getReviewsToday, limitSession, isNewCard } from './utils/dailyLimits';
+import { buildTodaySession, sortByMostOverdue, nextLearningStep, pickLearningCard, LearningCard, LEARNING_STEPS_MS } from './utils/studySession';
+import { applyDayRollover, toDateKey, DAY_CHECK_INTERVAL_MS, MAX_STREAK_FREEZES, STREAK_FREEZE_EVERY_DAYS } from './utils/studyDay';
 import { 
   PlusIcon, BookOpenIcon, ArrowPathIcon, MagnifyingGlassIcon, 
   CheckBadgeIcon, PlayCircleIcon, ArrowDownTrayIcon, ArrowUpTrayIcon, 
   ClockIcon, FunnelIcon, SparklesIcon, TrophyIcon, BeakerIcon, UserIcon,
   DocumentPlusIcon, ArrowsRightLeftIcon, Bars3BottomLeftIcon,
-  CloudArrowDownIcon
+  CloudArrowDownIcon, QueueListIcon, AcademicCapIcon, ArrowUturnLeftIcon, FlagIcon
 } from '@heroicons/react/24/outline';
 
 // Constants
 const WORDS_PER_SET = 30;
+const PREFETCH_AHEAD = 3; // Upcoming cards to look up while the current one is studied
+const MAX_ENRICHMENT_ATTEMPTS = 3; // Automatic tries before a job is marked failed
+const QUIZ_LENGTH = 20; // Questions in a dashboard quick quiz
+const PRACTICE_WORD_COUNT = 8; // Words handed to the GRE practice generator
+const AI_GROUPING_WORD_LIMIT = 150; // Words sent to a single AI grouping pass
+const READING_WORD_COUNT = 6; // Due words a generated passage is written around
+const MAX_SAVED_PASSAGES = 20;
+const MAX_RC_ATTEMPTS = 200; // Reading comprehension score history kept
+const MIN_RC_QUESTIONS = 3; // Fewer usable questions than this and the set isn't worth taking
+const MAX_READING_DAYS = 30; // Days of Daily Picks kept as reading history
 
 // Fisher-Yates shuffle for robust randomization
 const shuffleArray = <T,>(array: T[]): T[] => {
@@ -26,6 +66,68 @@ const shuffleArray = <T,>(array: T[]): T[] => {
     return newArr;
 };
 
+const LIBRARY_FILTERS: { id: LibraryFilter, label: string }[] = [
+    { id: 'all', label: 'All Words' },
+    { id: 'mastered', label: 'Mastered' },
+    { id: 'learning', label: 'In Progress' },
+    { id: 'new', label: 'Untouched' },
+    { id: 'custom', label: 'My Custom Words' }
+];
+
+const matchesLibraryFilter = (word: WordData, filter: LibraryFilter): boolean => {
+    switch (filter) {
+        case 'mastered': return word.mastered;
+        case 'learning': return !word.mastered && word.leitnerBox > 0;
+        case 'new': return !word.mastered && word.leitnerBox === 0;
+        case 'custom': return !!word.isCustom || word.id.startsWith('custom-');
+        default: return true;
+    }
+};
+
+// Saves generated content through a temporary link
+const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Course sets are fixed-size slices of the seeded words, in stored order
+const getSeedSet = (words: WordData[], setIndex: number): WordData[] => {
+    const start = setIndex * WORDS_PER_SET;
+    return words.filter(w => w.id.startsWith('seed-')).slice(start, start + WORDS_PER_SET);
+};
+
+// The first set that still has words never studied, or -1 once every set is started
+const getCurrentSetIndex = (words: WordData[]): number => {
+    const seeds = words.filter(w => w.id.startsWith('seed-'));
+    const index = seeds.findIndex(isNewCard);
+    return index === -1 ? -1 : Math.floor(index / WORDS_PER_SET);
+};
+
+// Fresh jobs for words that aren't already waiting; a finished or failed job for the same word is replaced
+const createEnrichmentJobs = (existing: EnrichmentJob[], wordIds: string[]): EnrichmentJob[] => {
+    const active = new Set(existing.filter(j => j.status === 'queued' || j.status === 'running').map(j => j.wordId));
+    const now = Date.now();
+    return [...new Set(wordIds)]
+        .filter(id => !active.has(id))
+        .map(wordId => ({ wordId, status: 'queued', attempts: 0, queuedAt: now, updatedAt: now }));
+};
+
+const PASSAGE_SOURCE_LABELS: Record<ReadingPassage['source'], string> = {
+    generated: 'Written around your due words',
+    pasted: 'Pasted',
+    article: 'Adapted from a Daily Pick'
+};
+
+// Failed writes stay queued in utils/db and surface through the save status banner,
+// so the UI never blocks on (or crashes from) a write
+const persist = (...writes: Promise<void>[]) => {
+    Promise.all(writes).catch(() => undefined);
+};
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState | null>(null); // Null while loading DB
   const [currentView, setCurrentView] = useState<ViewState>(ViewState.DASHBOARD);
@@ -34,61 +136,138 @@ const App: React.FC = () => {
   const [studyQueue, setStudyQueue] = useState<WordData[]>([]);
   const [currentCardIndex, setCurrentCardIndex] = useState(0);
   const [sessionComplete, setSessionComplete] = useState(false);
+  const [learningCards, setLearningCards] = useState<LearningCard[]>([]); // Cards in this session's learning steps
+  const [sessionMisses, setSessionMisses] = useState<Record<string, number>>({}); // "Again" answers per word this session
   const [isLoadingWord, setIsLoadingWord] = useState(false);
+  const [studyDirection, setStudyDirection] = useState<CardDirection>('forward');
+  const prefetchController = useRef<AbortController | null>(null);
+
+  // Quiz State
+  const [quizQuestions, setQuizQuestions] = useState<QuizQuestion[]>([]);
+  const [quizSkippedCount, setQuizSkippedCount] = useState(0);
+  const [quizKey, setQuizKey] = useState(0); // Remounts the quiz for each new run
+
+  // GRE Practice State
+  const [practiceItems, setPracticeItems] = useState<PracticeItem[] | null>(null);
+  const [practiceKey, setPracticeKey] = useState(0);
+  const practiceRun = useRef(0); // Ignores generator replies for a run the user already left
+
+  // Word Groups State (AI groups are persisted; synonym clusters are rebuilt from the words)
+  const [wordGroups, setWordGroups] = useState<WordCluster[]>([]);
+  const [isGroupingWords, setIsGroupingWords] = useState(false);
 
   // Reading State
-  const [articles, setArticles] = useState<ReadingArticle[]>([]);
+  const [readingDays, setReadingDays] = useState<DailyReadings[]>([]); // Cached Daily Picks, newest first
   const [loadingArticles, setLoadingArticles] = useState(false);
+  const [readingsError, setReadingsError] = useState<string | null>(null);
+  const readingsRequestedFor = useRef<string | null>(null); // Day the automatic fetch last ran for
+  const [passages, setPassages] = useState<ReadingPassage[]>([]);
+  const [activePassageId, setActivePassageId] = useState<string | null>(null);
+  const [isGeneratingPassage, setIsGeneratingPassage] = useState(false);
+  const [showPasteForm, setShowPasteForm] = useState(false);
+  const [pasteTitle, setPasteTitle] = useState('');
+  const [pasteText, setPasteText] = useState('');
+  const [peekWordId, setPeekWordId] = useState<string | null>(null);
+  const [adaptingUrl, setAdaptingUrl] = useState<string | null>(null);
+
+  // Reading Comprehension State
+  const [rcPassageId, setRcPassageId] = useState<string | null>(null);
+  const [rcQuestions, setRcQuestions] = useState<RcQuestion[] | null>(null);
+  const [rcKey, setRcKey] = useState(0);
+  const [rcAttempts, setRcAttempts] = useState<RcAttempt[]>([]);
+  const rcRun = useRef(0); // Ignores generator replies for a run the user already left
 
   // New Word Input
   const [newWordInput, setNewWordInput] = useState('');
   const [fetchImmediately, setFetchImmediately] = useState(false);
   const [isAddingWords, setIsAddingWords] = useState(false);
   
-  // Background Queue State
-  const [pendingQueue, setPendingQueue] = useState<string[]>([]);
+  // Background Queue State (persisted, see utils/db)
+  const [enrichmentJobs, setEnrichmentJobs] = useState<EnrichmentJob[]>([]);
   const isProcessingQueue = useRef(false);
   
   // Library State
   const [librarySearch, setLibrarySearch] = useState('');
-  const [libraryFilter, setLibraryFilter] = useState<'all' | 'mastered' | 'learning' | 'new' | 'custom'>('all');
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>('all');
   const [librarySort, setLibrarySort] = useState<'newest' | 'oldest' | 'a-z' | 'z-a'>('newest');
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null);
 
   // Smart Deck State
   const [smartDeckSort, setSmartDeckSort] = useState<'random' | 'newest' | 'oldest'>('random');
 
+  // Persistence State
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved');
+  const [pendingBackup, setPendingBackup] = useState<{ state: AppState, merge: BackupMerge } | null>(null); // Parsed, waiting on the merge preview
+  const [connectivity, setConnectivity] = useState<ConnectivityStatus>({ online: true, waiting: 0 });
+
+  useEffect(() => subscribeSaveStatus(setSaveStatus), []);
+  useEffect(() => subscribeConnectivity(setConnectivity), []);
+
+  // Lookups finish after the user may have reviewed or edited the word, so details are
+  // merged onto whatever is current rather than onto the copy the lookup started from
+  const appStateRef = useRef(appState);
+  useEffect(() => { appStateRef.current = appState; }, [appState]);
+
+  const applyEnrichedDetails = useCallback((wordId: string, validated: ValidatedWordDetails) => {
+      const storedWord = appStateRef.current?.words.find(w => w.id === wordId);
+      if (!storedWord) return;
+
+      setAppState(prev => {
+          if (!prev) return null;
+          const newWords = prev.words.map(w => w.id === wordId ? applyWordDetails(w, validated) : w);
+          return { ...prev, words: newWords };
+      });
+      // If current study session includes this word, update it there too
+      setStudyQueue(prev => prev.map(w => w.id === wordId ? applyWordDetails(w, validated) : w));
+      setLearningCards(prev => prev.map(c => c.word.id === wordId ? { ...c, word: applyWordDetails(c.word, validated) } : c));
+      persist(saveWords([applyWordDetails(storedWord, validated)]));
+  }, []);
+
+  // Warn before closing the tab while writes are queued or have failed
+  useEffect(() => {
+      const onBeforeUnload = (e: BeforeUnloadEvent) => {
+          if (!hasUnsavedChanges()) return;
+          e.preventDefault();
+          e.returnValue = '';
+      };
+      window.addEventListener('beforeunload', onBeforeUnload);
+      return () => window.removeEventListener('beforeunload', onBeforeUnload);
+  }, []);
+
+  // The day can turn over while the tab stays open: look again every minute and whenever it comes back into view
+  useEffect(() => {
+      const checkDayRollover = () => {
+          const current = appStateRef.current;
+          const next = current && applyDayRollover(current);
+          if (!next) return;
+          setAppState(prev => (prev && applyDayRollover(prev)) || prev);
+          persist(saveSettings(next));
+      };
+      const onVisibilityChange = () => { if (document.visibilityState === 'visible') checkDayRollover(); };
+      const timer = setInterval(checkDayRollover, DAY_CHECK_INTERVAL_MS);
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      return () => {
+          clearInterval(timer);
+          document.removeEventListener('visibilitychange', onVisibilityChange);
+      };
+  }, []);
+
   // Initialization from DB
   useEffect(() => {
     const init = async () => {
       try {
-        const loadedState = await getStoredState();
+        const [loadedState, loadedJobs, loadedGroups, loadedPassages, loadedAttempts, loadedReadings] = await Promise.all([
+            getStoredState(), getEnrichmentJobs(), getWordGroups(), getReadingPassages(), getRcAttempts(), getDailyReadingsHistory()
+        ]);
         
-        // Check Streak logic
-        const today = new Date().toDateString();
-        let newState = { ...loadedState };
-
-        if (loadedState.lastLoginDate !== today) {
-            let newStreak = loadedState.streak;
-            const yesterday = new Date();
-            yesterday.setDate(yesterday.getDate() - 1);
-            
-            if (loadedState.lastLoginDate === yesterday.toDateString()) {
-                 newStreak += 1;
-            } else if (loadedState.lastLoginDate !== '' && loadedState.lastLoginDate !== today) {
-                 newStreak = 1; // Reset if broken
-            } else if (loadedState.lastLoginDate === '') {
-                 newStreak = 1; // First login
-            }
-
-            newState = { ...newState, lastLoginDate: today, streak: newStreak, dailyProgress: 0, dailyUniqueProgress: 0 };
-            await saveStoredState(newState);
-        } else {
-             // Ensure new field exists if migrating from old state without logout
-             newState = { 
-                 ...newState, 
-                 dailyUniqueProgress: (typeof newState.dailyUniqueProgress === 'number') ? newState.dailyUniqueProgress : 0 
-             };
-        }
+        // A new study day moves the streak on and clears the daily counters
+        let newState = applyDayRollover(loadedState) || loadedState;
+        if (newState !== loadedState) persist(saveSettings(newState));
+        // Ensure new field exists if migrating from old state without logout
+        newState = {
+            ...newState,
+            dailyUniqueProgress: (typeof newState.dailyUniqueProgress === 'number') ? newState.dailyUniqueProgress : 0
+        };
         
         // --- AUTO-MIGRATION: Randomize if sorted ---
         const seedWords = newState.words.filter(w => w.id.startsWith('seed-'));
@@ -107,7 +286,7 @@ const App: React.FC = () => {
                   const customWords = newState.words.filter(w => !w.id.startsWith('seed-'));
                   const shuffledUnstarted = shuffleArray(unstartedSeeds);
                   newState.words = [...startedSeeds, ...shuffledUnstarted, ...customWords];
-                  await saveStoredState(newState);
+                  persist(saveWordOrder(newState.words));
              }
         }
 
@@ -116,16 +295,22 @@ const App: React.FC = () => {
         else document.documentElement.classList.remove('dark');
 
         setAppState(newState);
+        setWordGroups(loadedGroups);
+        setPassages(loadedPassages);
+        setRcAttempts(loadedAttempts);
+        setReadingDays(loadedReadings);
         
         // CRITICAL UPDATE: Only auto-queue CUSTOM words for background fetch on initialization.
         // Seeded words (the ~2000 main course words) will be fetched lazily when studied.
+        // Words that already have a job (even a failed one) are left to the queue panel.
+        const jobWordIds = new Set(loadedJobs.map(j => j.wordId));
         const customWordsNeedingFetch = newState.words
-            .filter(w => (w.isCustom || w.id.startsWith('custom-')) && w.definitions.length === 0)
+            .filter(w => (w.isCustom || w.id.startsWith('custom-')) && w.definitions.length === 0 && !jobWordIds.has(w.id))
             .map(w => w.id);
-            
-        if (customWordsNeedingFetch.length > 0) {
-            setPendingQueue(prev => [...new Set([...prev, ...customWordsNeedingFetch])]);
-        }
+        const newJobs = createEnrichmentJobs(loadedJobs, customWordsNeedingFetch);
+
+        setEnrichmentJobs([...loadedJobs, ...newJobs]);
+        persist(saveEnrichmentJobs(newJobs));
       } catch (e) {
         console.error("Failed to load DB", e);
       }
@@ -133,48 +318,81 @@ const App: React.FC = () => {
     init();
   }, []);
 
-  // Background Worker: Processes pendingQueue IDs one by one
+  // Replaces jobs by word id (appending new ones) and saves them
+  const updateEnrichmentJobs = useCallback((changed: EnrichmentJob[]) => {
+      if (changed.length === 0) return;
+      const byId = new Map(changed.map(j => [j.wordId, j]));
+      setEnrichmentJobs(prev => {
+          const kept = prev.map(j => byId.get(j.wordId) || j);
+          const existingIds = new Set(prev.map(j => j.wordId));
+          return [...kept, ...changed.filter(j => !existingIds.has(j.wordId))];
+      });
+      persist(saveEnrichmentJobs(changed));
+  }, []);
+
+  const removeEnrichmentJobs = useCallback((wordIds: string[]) => {
+      if (wordIds.length === 0) return;
+      const ids = new Set(wordIds);
+      setEnrichmentJobs(prev => prev.filter(j => !ids.has(j.wordId)));
+      persist(deleteEnrichmentJobs(wordIds));
+  }, []);
+
+  const enqueueEnrichment = (wordIds: string[]) => {
+      updateEnrichmentJobs(createEnrichmentJobs(enrichmentJobs, wordIds));
+  };
+
+  // Background Worker: runs queued enrichment jobs one by one, oldest first
   useEffect(() => {
-      if (pendingQueue.length === 0 || isProcessingQueue.current || !appState) return;
+      if (!appState || appState.enrichmentPaused || isProcessingQueue.current) return;
+      const job = enrichmentJobs
+          .filter(j => j.status === 'queued')
+          .reduce<EnrichmentJob | null>((oldest, j) => !oldest || j.queuedAt < oldest.queuedAt ? j : oldest, null);
+      if (!job) return;
 
       const processNext = async () => {
           isProcessingQueue.current = true;
-          const nextId = pendingQueue[0];
           
-          const wordToFetch = appState.words.find(w => w.id === nextId);
+          const wordToFetch = appState.words.find(w => w.id === job.wordId);
           if (!wordToFetch) {
-              setPendingQueue(prev => prev.slice(1));
+              // Deleted, or replaced by a restore
+              removeEnrichmentJobs([job.wordId]);
+              isProcessingQueue.current = false;
+              return;
+          }
+          if (wordToFetch.definitions.length > 0 && !wordToFetch.detailsIncomplete) {
+              // Already filled in while it waited, e.g. by the study session
+              updateEnrichmentJobs([{ ...job, status: 'done', updatedAt: Date.now() }]);
               isProcessingQueue.current = false;
               return;
           }
 
+          const running: EnrichmentJob = { ...job, status: 'running', attempts: job.attempts + 1, updatedAt: Date.now() };
+          updateEnrichmentJobs([running]);
           try {
-              // Fetch details from AI
-              const details = await fetchWordDetails(wordToFetch.word);
-              const updatedWord = { ...wordToFetch, ...details } as WordData;
-
-              // Update state and persistence
-              setAppState(prev => {
-                  if (!prev) return null;
-                  const newWords = prev.words.map(w => w.id === nextId ? updatedWord : w);
-                  const newState = { ...prev, words: newWords };
-                  saveStoredState(newState);
-                  return newState;
-              });
-              
-              // If current study session includes this word, update it there too
-              setStudyQueue(prev => prev.map(w => w.id === nextId ? updatedWord : w));
-
+              // Shares the request if the prefetcher is already looking this word up
+              const validated = await enrichWord(wordToFetch, appState.dictionaryProviders);
+              applyEnrichedDetails(job.wordId, validated);
+              updateEnrichmentJobs([{ ...running, status: 'done', lastError: undefined, updatedAt: Date.now() }]);
           } catch (e) {
+              const now = Date.now();
+              if (isOfflineError(e)) {
+                  // Shared with the card on screen, which gave up offline; not a real attempt
+                  updateEnrichmentJobs([{ ...job, status: 'queued', updatedAt: now }]);
+                  return;
+              }
               console.error(`Failed to background fetch for ${wordToFetch.word}`, e);
+              const lastError = e instanceof Error ? e.message : String(e);
+              // Retries go to the back of the queue so one bad word doesn't hold up the rest
+              updateEnrichmentJobs([running.attempts >= MAX_ENRICHMENT_ATTEMPTS
+                  ? { ...running, status: 'failed', lastError, updatedAt: now }
+                  : { ...running, status: 'queued', lastError, queuedAt: now, updatedAt: now }]);
           } finally {
-              setPendingQueue(prev => prev.slice(1));
               isProcessingQueue.current = false;
           }
       };
 
       processNext();
-  }, [pendingQueue, appState]);
+  }, [enrichmentJobs, appState, applyEnrichedDetails, updateEnrichmentJobs, removeEnrichmentJobs]);
 
   const toggleDarkMode = async () => {
     if (!appState) return;
@@ -184,75 +402,223 @@ const App: React.FC = () => {
     
     const newState = { ...appState, darkMode: newMode };
     setAppState(newState);
-    await saveStoredState(newState);
+    persist(saveSettings(newState));
   };
 
-  // Lazy Loading Effect for Study Session (Specific to the one being viewed right now)
+  // Lazy Loading Effect for Study Session: the card on screen first, then the next few in the background.
+  // Offline, the card is shown straight away with its details pending, and looked up again once back online.
+  const providerOrder = appState?.dictionaryProviders;
+  const isOnlineNow = connectivity.online;
   useEffect(() => {
-     if (currentView !== ViewState.STUDY || studyQueue.length === 0) return;
-
-     const loadCard = async (index: number) => {
-         const word = studyQueue[index];
-         if (word && word.definitions.length === 0) {
-             if (index === currentCardIndex) setIsLoadingWord(true);
-             try {
-                 const details = await fetchWordDetails(word.word);
-                 const updatedWord = { ...word, ...details } as WordData;
-                 setStudyQueue(prev => {
-                     const newQ = [...prev];
-                     if (newQ[index] && newQ[index].id === word.id) newQ[index] = updatedWord;
-                     return newQ;
-                 });
-                 setAppState(prev => {
-                     if (!prev) return null;
-                     const newWords = prev.words.map(w => w.id === word.id ? updatedWord : w);
-                     const newState = { ...prev, words: newWords };
-                     saveStoredState(newState);
-                     return newState;
-                 });
-             } catch (e) {
-                 console.error("Failed to load word details", e);
-             } finally {
-                 if (index === currentCardIndex) setIsLoadingWord(false);
-             }
-         }
-     };
+     if (!providerOrder) return;
+     if (currentView !== ViewState.STUDY || sessionComplete || studyQueue.length === 0) return;
+
+     if (!prefetchController.current) prefetchController.current = new AbortController();
+     const signal = prefetchController.current.signal;
+
+     const word = studyQueue[currentCardIndex];
+     if (word && word.definitions.length === 0) {
+         setIsLoadingWord(isOnlineNow);
+         enrichWord(word, providerOrder, { priority: PRIORITY.current, signal })
+             .then(validated => applyEnrichedDetails(word.id, validated))
+             .catch(e => { if (!isAbortError(e) && !isOfflineError(e)) console.error("Failed to load word details", e); })
+             .finally(() => setIsLoadingWord(false));
+     } else {
+         setIsLoadingWord(false);
+     }
+
+     const upcoming = studyQueue.slice(currentCardIndex + 1, currentCardIndex + 1 + PREFETCH_AHEAD);
+     prefetchWords(upcoming, providerOrder, signal, applyEnrichedDetails);
+  }, [currentCardIndex, currentView, sessionComplete, studyQueue, providerOrder, applyEnrichedDetails, isOnlineNow]);
+
+  // Drop queued prefetches once the session is over; lookups already sent still save their results
+  useEffect(() => {
+     if (currentView === ViewState.STUDY && !sessionComplete) return;
+     prefetchController.current?.abort();
+     prefetchController.current = null;
+  }, [currentView, sessionComplete]);
 
-     loadCard(currentCardIndex);
-     if (currentCardIndex + 1 < studyQueue.length) loadCard(currentCardIndex + 1);
-  }, [currentCardIndex, currentView, studyQueue]);
 
 
-  const prepareStudySession = useCallback((targetWords: WordData[]) => {
+  // Daily Picks load when the Reading tab is first opened each day, and again when a connection returns
+  useEffect(() => {
+     if (!appState || currentView !== ViewState.READING) return;
+     const today = toDateKey();
+     if (readingsRequestedFor.current !== today) {
+         readingsRequestedFor.current = today;
+         loadReadings();
+     }
+     const onOnline = () => { if (!readingDays.some(d => d.date === toDateKey())) loadReadings(); };
+     window.addEventListener('online', onOnline);
+     return () => window.removeEventListener('online', onOnline);
+  });
+
+  const prepareStudySession = useCallback((targetWords: WordData[], direction: CardDirection = 'forward') => {
     if (targetWords.length === 0) {
       alert("No words selected to study.");
       return;
     }
+    // A new session replaces the old one's lookahead
+    prefetchController.current?.abort();
+    prefetchController.current = null;
     setStudyQueue(targetWords);
+    setStudyDirection(direction);
     setCurrentCardIndex(0);
     setSessionComplete(false);
+    setLearningCards([]);
+    setSessionMisses({});
     setCurrentView(ViewState.STUDY);
   }, []);
 
+  // Scheduled sessions stop at what's left of today's limits. Once nothing is left, offers to study ahead anyway.
+  const startLimitedSession = (words: WordData[], direction: CardDirection = 'forward') => {
+    if (!appState) return;
+    const { words: allowed, heldBack } = limitSession(words, getDailyAllowance(applyDayRollover(appState) || appState));
+    if (allowed.length > 0 || words.length === 0) {
+        prepareStudySession(allowed, direction);
+        return;
+    }
+    const limits = [
+        heldBack.newCards > 0 ? `${appState.newCardsPerDay} new words` : '',
+        heldBack.reviews > 0 ? `${appState.maxReviewsPerDay} reviews` : ''
+    ].filter(Boolean).join(' and ');
+    if (window.confirm(`You've reached today's limit of ${limits}. Study ahead anyway?`)) prepareStudySession(words, direction);
+  };
+
   const startSetSession = (setIndex: number) => {
     if (!appState) return;
-    const start = setIndex * WORDS_PER_SET;
-    const end = start + WORDS_PER_SET;
-    const seededWords = appState.words.filter(w => w.id.startsWith('seed-'));
-    const setWords = seededWords.slice(start, end);
+    const setWords = getSeedSet(appState.words, setIndex);
     let toStudy = setWords.filter(w => w.leitnerBox === 0 || !w.mastered);
     if (toStudy.length === 0) {
          const confirmReview = window.confirm("You have started all words in this set! Review all?");
          if (confirmReview) toStudy = setWords;
          else return;
     }
-    prepareStudySession(toStudy);
+    startLimitedSession(toStudy);
+  };
+
+  // Quizzes run entirely on stored definitions, so they work offline once words are enriched
+  const startQuiz = (targets: WordData[]) => {
+    if (!appState) return;
+    const bank = appState.words.filter(w => w.definitions.length > 0);
+    const { questions, skipped } = buildQuiz(shuffleArray(targets), bank);
+    if (questions.length === 0) {
+        alert("None of these words have definitions yet. Study or enrich them first, then try the quiz again.");
+        return;
+    }
+    setQuizQuestions(questions);
+    setQuizSkippedCount(skipped.length);
+    setQuizKey(prev => prev + 1);
+    setCurrentView(ViewState.QUIZ);
+  };
+
+  const startSetQuiz = (setIndex: number) => {
+    if (!appState) return;
+    startQuiz(getSeedSet(appState.words, setIndex));
+  };
+
+  // Due words first, then words in progress, then anything else with a definition
+  const startQuickQuiz = () => {
+    if (!appState) return;
+    const due = getReviewQueue(appState.words, appState.scheduler).filter(w => w.definitions.length > 0);
+    const dueIds = new Set(due.map(w => w.id));
+    const learning: WordData[] = shuffleArray(appState.words.filter(w => !dueIds.has(w.id) && !w.mastered && w.leitnerBox > 0 && w.definitions.length > 0));
+    const rest: WordData[] = shuffleArray(appState.words.filter(w => !dueIds.has(w.id) && !(w.leitnerBox > 0 && !w.mastered) && w.definitions.length > 0));
+    startQuiz([...due, ...learning, ...rest].slice(0, QUIZ_LENGTH));
+  };
+
+  // Text Completion / Sentence Equivalence items built around due and in-progress words
+  const startPractice = async () => {
+    if (!appState) return;
+    const due = getReviewQueue(appState.words, appState.scheduler).filter(w => w.leitnerBox > 0);
+    const dueIds = new Set(due.map(w => w.id));
+    const learning: WordData[] = appState.words.filter(w => !dueIds.has(w.id) && !w.mastered && w.leitnerBox > 0);
+    const targets = [...shuffleArray(due), ...shuffleArray(learning)].slice(0, PRACTICE_WORD_COUNT);
+    if (targets.length === 0) {
+        alert("Practice questions are built from words you're learning. Study a set first.");
+        return;
+    }
+
+    const run = ++practiceRun.current;
+    setPracticeItems(null);
+    setPracticeKey(prev => prev + 1);
+    setCurrentView(ViewState.PRACTICE);
+    try {
+        const { items, dropped } = validatePracticeItems(await generatePracticeItems(targets.map(w => w.word)), appState.words);
+        if (dropped > 0) console.warn(`Dropped ${dropped} malformed practice items`);
+        if (items.length === 0) throw new Error("No usable practice items in response");
+        if (run === practiceRun.current) setPracticeItems(items);
+    } catch (e) {
+        console.error("Failed to generate practice items", e);
+        if (run !== practiceRun.current) return;
+        alert("Couldn't write practice questions right now. Check your connection and try again.");
+        setCurrentView(ViewState.DASHBOARD);
+    }
+  };
+
+  // Definition-to-word recall for words already met in the forward direction
+  const startReverseSession = () => {
+    if (!appState) return;
+    const queue = getReverseQueue(appState.words, appState.scheduler);
+    if (queue.length === 0) {
+        alert("Reverse cards open up once you've studied some words. Come back after a set or two.");
+        return;
+    }
+    startLimitedSession(queue, 'reverse');
+  };
+
+  // Cluster members in cluster order; mastered words stay in, the point is telling them apart
+  const startClusterSession = (cluster: WordCluster) => {
+    if (!appState) return;
+    const byId = new Map(appState.words.map(w => [w.id, w]));
+    const words = cluster.wordIds.map(id => byId.get(id)).filter((w): w is WordData => !!w);
+    prepareStudySession(words);
+  };
+
+  // Words being learned go first, since those are the ones worth grouping
+  const handleGroupWithAI = async () => {
+    if (!appState || isGroupingWords) return;
+    const started: WordData[] = appState.words.filter(w => w.leitnerBox > 0 || w.mastered || w.isCustom);
+    const rest: WordData[] = appState.words.filter(w => !(w.leitnerBox > 0 || w.mastered || w.isCustom) && w.definitions.length > 0);
+    const candidates = [...started, ...rest].slice(0, AI_GROUPING_WORD_LIMIT);
+    if (candidates.length < 4) {
+        alert("Study a few more words first; there isn't enough to group yet.");
+        return;
+    }
+
+    setIsGroupingWords(true);
+    try {
+        const { groups, dropped } = validateWordGroups(await groupWordsByMeaning(candidates.map(w => w.word)), appState.words);
+        if (dropped > 0) console.warn(`Dropped ${dropped} unusable word groups`);
+        if (groups.length === 0) throw new Error("No usable groups in response");
+        setWordGroups(groups);
+        persist(saveWordGroups(groups));
+    } catch (e) {
+        console.error("Failed to group words", e);
+        alert("Couldn't group your words right now. Check your connection and try again.");
+    } finally {
+        setIsGroupingWords(false);
+    }
+  };
+
+  // Due reviews, most overdue first, with new words from the current set mixed in
+  const startTodaySession = () => {
+    if (!appState) return;
+    const due = sortByMostOverdue(getReviewQueue(appState.words, appState.scheduler));
+    const setIndex = getCurrentSetIndex(appState.words);
+    const newWords = setIndex === -1 ? [] : getSeedSet(appState.words, setIndex).filter(isNewCard);
+    const session = buildTodaySession(due, newWords, appState.reviewsPerNewWord);
+    if (session.length === 0) {
+        alert("Nothing is due and every set has been started. Add some words or try a Smart Deck.");
+        return;
+    }
+    startLimitedSession(session);
   };
 
   const startReviewSession = () => {
     if (!appState) return;
-    const reviewQueue = getReviewQueue(appState.words);
-    prepareStudySession(reviewQueue);
+    const reviewQueue = getReviewQueue(appState.words, appState.scheduler);
+    startLimitedSession(reviewQueue);
   };
 
   const startCustomSession = (type: 'mastered' | 'learning' | 'custom') => {
@@ -288,33 +654,100 @@ const App: React.FC = () => {
       prepareStudySession(processedWords);
   };
 
-  const handleCardNext = async (isCorrect: boolean) => {
-    if (!appState) return;
-    const currentWord = studyQueue[currentCardIndex];
-    let newBox = isCorrect ? 5 : 1;
-    let nextReview = isCorrect ? Date.now() + (30 * 24 * 60 * 60 * 1000) : Date.now() + (24 * 60 * 60 * 1000);
-    let uniqueIncrement = currentWord.leitnerBox === 0 ? 1 : 0;
-    const isMastered = newBox >= 5;
-
-    const updatedWords = appState.words.map(w => w.id === currentWord.id ? { 
-        ...w, 
-        leitnerBox: newBox, 
-        nextReviewDate: nextReview,
-        mastered: isMastered,
-        lastReview: Date.now() 
-    } : w);
-
-    const newState = { 
-        ...appState, 
-        words: updatedWords, 
-        dailyProgress: appState.dailyProgress + 1,
-        dailyUniqueProgress: appState.dailyUniqueProgress + uniqueIncrement
+  // Schedules, logs and counts answers, whether they came from flashcards, a quiz or a practice item.
+  // Several answers can land at once (one practice item tests several words), so they're applied together.
+  // Returns the library with the answers applied.
+  const recordReviews = (reviews: WordReview[]): WordData[] => {
+    // Answers arrive after a delay, so read the latest library: details filled in meanwhile must survive
+    const current = appStateRef.current;
+    if (!current) return [];
+    const changed = new Map<string, WordData>();
+    const logEntries: ReviewLogEntry[] = [];
+    let scheduledCount = 0;
+    let uniqueIncrement = 0;
+
+    reviews.forEach(({ wordId, answer, direction = 'forward', learningStep }) => {
+        // Read the box from the library copy: session snapshots may predate earlier answers
+        const storedWord = changed.get(wordId) || current.words.find(w => w.id === wordId);
+        if (!storedWord) return;
+        const before = getReviewState(storedWord, direction);
+        if (learningStep) {
+            // Logged for the history, but the card, its lapses and today's counts stay as they are
+            logEntries.push({
+                wordId,
+                timestamp: Date.now(),
+                grade: answer.grade,
+                boxBefore: before.leitnerBox,
+                boxAfter: before.leitnerBox,
+                responseMs: answer.responseMs,
+                learningStep,
+                ...(direction === 'reverse' ? { direction } : {})
+            });
+            return;
+        }
+        const reviewed = calculateNextReview(before, answer.grade, current.scheduler);
+        if (direction === 'forward' && storedWord.leitnerBox === 0) uniqueIncrement++;
+
+        const logEntry = {
+            wordId,
+            timestamp: reviewed.lastReview || Date.now(),
+            grade: answer.grade,
+            boxBefore: before.leitnerBox,
+            boxAfter: reviewed.leitnerBox,
+            responseMs: answer.responseMs,
+            ...(direction === 'reverse' ? { direction } : {})
+        };
+        const lapses = (storedWord.lapses || 0) + (isLapse(logEntry) ? 1 : 0);
+        changed.set(wordId, { ...withReviewState(storedWord, reviewed, direction), lastResponseMs: answer.responseMs, lapses });
+        logEntries.push(logEntry);
+        scheduledCount++;
+    });
+    if (logEntries.length === 0) return current.words;
+
+    // Answers just after the day turned over count toward the new day, even before the next check runs
+    const withAnswers = (state: AppState): AppState => {
+        const today = applyDayRollover(state) || state;
+        return {
+            ...today,
+            words: state.words.map(w => changed.has(w.id) ? withSchedulingFrom(w, changed.get(w.id)!) : w),
+            dailyProgress: today.dailyProgress + scheduledCount,
+            dailyUniqueProgress: today.dailyUniqueProgress + uniqueIncrement
+        };
     };
-    
-    setAppState(newState);
-    await saveStoredState(newState);
+    const newState = withAnswers(current);
+
+    setAppState(prev => prev && withAnswers(prev));
+    persist(saveWords([...changed.values()]), saveSettings(newState), ...logEntries.map(addReviewLogEntry));
+    return newState.words;
+  };
 
-    if (currentCardIndex < studyQueue.length - 1) setCurrentCardIndex(prev => prev + 1);
+  // Forgotten and brand-new cards stay in the session through the learning steps, so it only
+  // ends once every card has been recalled. Only a card's first answer is scheduled.
+  const handleCardNext = (answer: ReviewAnswer) => {
+    if (!appState) return;
+    const word = studyQueue[currentCardIndex];
+    const storedWord = appState.words.find(w => w.id === word.id) || word;
+    const isNew = getReviewState(storedWord, studyDirection).leitnerBox === 0;
+    const currentStep = learningCards.find(c => c.word.id === word.id)?.step;
+    const words = recordReviews([{ wordId: word.id, answer, direction: studyDirection, learningStep: currentStep !== undefined }]);
+    if (answer.grade === 'again') setSessionMisses(prev => ({ ...prev, [word.id]: (prev[word.id] || 0) + 1 }));
+
+    const now = Date.now();
+    const step = nextLearningStep(currentStep, answer.grade, isNew);
+    let learning = learningCards.filter(c => c.word.id !== word.id);
+    if (step !== null) learning = [...learning, { word, step, dueAt: now + LEARNING_STEPS_MS[step] }];
+
+    // Cards already queued again are on their way; of the rest, one whose step is up goes next.
+    // It goes back in as the library has it now, so the card shows its current schedule.
+    const upcoming = studyQueue.slice(currentCardIndex + 1);
+    const upcomingIds = new Set(upcoming.map(w => w.id));
+    const next = pickLearningCard(learning.filter(c => !upcomingIds.has(c.word.id)), now, upcoming.length === 0);
+    const nextWord = next && (words.find(w => w.id === next.word.id) || next.word);
+    const queue = nextWord ? [...studyQueue.slice(0, currentCardIndex + 1), nextWord, ...upcoming] : studyQueue;
+
+    setLearningCards(learning);
+    if (queue !== studyQueue) setStudyQueue(queue);
+    if (currentCardIndex < queue.length - 1) setCurrentCardIndex(prev => prev + 1);
     else setSessionComplete(true);
   };
 
@@ -323,7 +756,7 @@ const App: React.FC = () => {
      const updatedWords = appState.words.map(w => w.id === id ? { ...w, userMnemonic: mnemonic } : w);
      const newState = { ...appState, words: updatedWords };
      setAppState(newState);
-     await saveStoredState(newState); 
+     persist(saveWords(updatedWords.filter(w => w.id === id)));
   };
 
   const handleImageUpdate = async (id: string, base64: string) => {
@@ -331,22 +764,261 @@ const App: React.FC = () => {
       const updatedWords = appState.words.map(w => w.id === id ? { ...w, aiImageUrl: base64 } : w);
       const newState = { ...appState, words: updatedWords };
       setAppState(newState);
-      await saveStoredState(newState);
+      persist(saveWordImage(id, base64));
   };
 
-  const loadReadings = async () => {
+  const handleSchedulerChange = async (scheduler: SchedulerId) => {
+      if (!appState || appState.scheduler === scheduler) return;
+      // Carry existing progress over so switching models doesn't reset anyone to "new"
+      const newState = { ...appState, scheduler, words: migrateWordsToScheduler(appState.words, scheduler) };
+      setAppState(newState);
+      persist(saveWords(newState.words), saveSettings(newState));
+  };
+
+  const toggleKeyboardShortcuts = async () => {
+      if (!appState) return;
+      const newState = { ...appState, keyboardShortcuts: !appState.keyboardShortcuts };
+      setAppState(newState);
+      persist(saveSettings(newState));
+  };
+
+  // Goal and limits are whole cards; the goal needs at least one to be reachable
+  const handleDailyLimitChange = (field: 'dailyGoal' | 'newCardsPerDay' | 'maxReviewsPerDay', value: number) => {
+      if (!appState) return;
+      const newState = { ...appState, [field]: Math.max(field === 'dailyGoal' ? 1 : 0, Math.floor(value) || 0) };
+      setAppState(newState);
+      persist(saveSettings(newState));
+  };
+
+  const handleReviewsPerNewWordChange = (reviewsPerNewWord: number) => {
+      if (!appState) return;
+      const newState = { ...appState, reviewsPerNewWord };
+      setAppState(newState);
+      persist(saveSettings(newState));
+  };
+
+  const handleDayStartHourChange = (dayStartHour: number) => {
+      if (!appState) return;
+      const newState = { ...appState, dayStartHour };
+      setAppState(newState);
+      persist(saveSettings(newState));
+  };
+
+  const toggleEnrichmentPaused = async () => {
+      if (!appState) return;
+      const newState = { ...appState, enrichmentPaused: !appState.enrichmentPaused };
+      setAppState(newState);
+      persist(saveSettings(newState));
+  };
+
+  // Failed jobs start over with a fresh set of attempts
+  const handleRetryFailedJobs = () => {
+      const now = Date.now();
+      updateEnrichmentJobs(enrichmentJobs
+          .filter(j => j.status === 'failed')
+          .map(j => ({ ...j, status: 'queued', attempts: 0, lastError: undefined, queuedAt: now, updatedAt: now })));
+  };
+
+  const handleClearFinishedJobs = () => {
+      removeEnrichmentJobs(enrichmentJobs.filter(j => j.status === 'done').map(j => j.wordId));
+  };
+
+  const handleEnrichSet = (setIndex: number) => {
+      if (!appState) return;
+      const ids = getSeedSet(appState.words, setIndex)
+          .filter(w => w.definitions.length === 0 || w.detailsIncomplete)
+          .map(w => w.id);
+      if (ids.length === 0) {
+          alert(`Every word in Set ${setIndex + 1} already has details.`);
+          return;
+      }
+      enqueueEnrichment(ids);
+  };
+
+  // `order` lists the enabled providers; anything left out is disabled
+  const handleDictionaryProvidersChange = async (order: DictionaryProviderId[]) => {
+      if (!appState) return;
+      const newState = { ...appState, dictionaryProviders: order };
+      setAppState(newState);
+      persist(saveSettings(newState));
+  };
+
+  const handleRetrySave = () => {
+      retryPendingSaves().catch(e => console.error("Retry save failed", e));
+  };
+
+  const handlePruneImages = async () => {
+      if (!appState) return;
+      const imageCount = appState.words.filter(w => w.aiImageUrl).length;
+      const confirmPrune = window.confirm(`Remove all ${imageCount} generated images to free up storage? Your words and progress are kept.`);
+      if (!confirmPrune) return;
+      setAppState(prev => prev ? { ...prev, words: prev.words.map(({ aiImageUrl, ...w }) => w) } : prev);
+      setStudyQueue(prev => prev.map(({ aiImageUrl, ...w }) => w));
+      try {
+          await pruneGeneratedImages();
+      } catch (e) {
+          console.error("Failed to prune images", e);
+      }
+  };
+
+  // Fetches today's picks once per day; the cached copy (today's or the latest) is shown otherwise
+  const loadReadings = async (force = false) => {
+    const today = toDateKey();
+    if (loadingArticles || (!force && readingDays.some(d => d.date === today))) return;
+    if (!navigator.onLine) {
+        setReadingsError(readingDays.length > 0
+            ? "You're offline. Showing the most recent picks saved on this device."
+            : "You're offline, and no picks have been saved on this device yet.");
+        return;
+    }
+
     setLoadingArticles(true);
-    const arts = await getDailyReadings();
-    setArticles(arts);
-    setLoadingArticles(false);
+    setReadingsError(null);
+    try {
+        const fetched = validateReadingArticles(await getDailyReadings());
+        if (fetched.length === 0) throw new Error("No usable articles in response");
+        const existing = readingDays.find(d => d.date === today);
+        const day: DailyReadings = { date: today, fetchedAt: Date.now(), articles: fetched, readUrls: existing ? existing.readUrls : [] };
+        const days = [day, ...readingDays.filter(d => d.date !== today)];
+        setReadingDays(days.slice(0, MAX_READING_DAYS));
+        persist(saveDailyReadings(day), deleteDailyReadings(days.slice(MAX_READING_DAYS).map(d => d.date)));
+    } catch (e) {
+        console.error("Failed to fetch daily readings", e);
+        setReadingsError(readingDays.length > 0
+            ? "Couldn't fetch today's picks. Showing the most recent ones saved on this device."
+            : "Couldn't fetch today's picks. Check your connection and try again.");
+    } finally {
+        setLoadingArticles(false);
+    }
+  };
+
+  const setArticleRead = (date: string, url: string, read: boolean) => {
+    const day = readingDays.find(d => d.date === date);
+    if (!day || day.readUrls.includes(url) === read) return;
+    const updated = { ...day, readUrls: read ? [...day.readUrls, url] : day.readUrls.filter(u => u !== url) };
+    setReadingDays(prev => prev.map(d => d.date === date ? updated : d));
+    persist(saveDailyReadings(updated));
+  };
+
+  // Passages change after AI calls return, so updates start from the latest list rather than a closure's copy
+  const passagesRef = useRef(passages);
+  useEffect(() => { passagesRef.current = passages; }, [passages]);
+
+  const updatePassages = (update: (prev: ReadingPassage[]) => ReadingPassage[]) => {
+    const next = update(passagesRef.current);
+    passagesRef.current = next;
+    setPassages(next);
+    persist(saveReadingPassages(next));
   };
 
-  const handleBulkAddWords = async () => {
-    if (!newWordInput.trim() || !appState) return;
+  const addPassage = (passage: ReadingPassage) => {
+    updatePassages(prev => [passage, ...prev].slice(0, MAX_SAVED_PASSAGES));
+    setActivePassageId(passage.id);
+  };
+
+  const handleDeletePassage = (id: string) => {
+    updatePassages(prev => prev.filter(p => p.id !== id));
+    if (activePassageId === id) setActivePassageId(null);
+  };
+
+  // Questions are generated on the first attempt and stored on the passage for retakes
+  const startComprehension = async (passage: ReadingPassage) => {
+    const run = ++rcRun.current;
+    setRcPassageId(passage.id);
+    setRcQuestions(passage.questions || null);
+    setRcKey(prev => prev + 1);
+    if (passage.questions) return;
+    try {
+        const { questions, dropped } = validateRcQuestions(await generateComprehensionQuestions(passage.title, passage.text), passage.text);
+        if (dropped > 0) console.warn(`Dropped ${dropped} malformed comprehension questions`);
+        if (questions.length < MIN_RC_QUESTIONS) throw new Error("Too few usable questions in response");
+        updatePassages(prev => prev.map(p => p.id === passage.id ? { ...p, questions } : p));
+        if (run === rcRun.current) setRcQuestions(questions);
+    } catch (e) {
+        console.error("Failed to generate comprehension questions", e);
+        if (run !== rcRun.current) return;
+        alert("Couldn't write questions for this passage right now. Check your connection and try again.");
+        setRcPassageId(null);
+    }
+  };
+
+  const exitComprehension = () => {
+    rcRun.current++;
+    setRcPassageId(null);
+  };
+
+  const handleRcFinish = (attempt: RcAttempt) => {
+    const next = [attempt, ...rcAttempts].slice(0, MAX_RC_ATTEMPTS);
+    setRcAttempts(next);
+    persist(saveRcAttempts(next));
+  };
+
+  // Articles can't be fetched from the browser, so practice runs on an adaptation saved as a passage.
+  // An article that was already adapted is reused.
+  const handleArticlePractice = async (article: ReadingArticle) => {
+    const existing = passagesRef.current.find(p => p.url === article.url);
+    if (existing) {
+        startComprehension(existing);
+        return;
+    }
+    if (adaptingUrl) return;
+    setAdaptingUrl(article.url);
+    try {
+        const validated = validateReadingPassage(await adaptArticlePassage(article));
+        if (!validated) throw new Error("No usable passage in response");
+        const passage: ReadingPassage = { id: `passage-${Date.now()}`, ...validated, source: 'article', url: article.url, createdAt: Date.now() };
+        addPassage(passage);
+        startComprehension(passage);
+    } catch (e) {
+        console.error("Failed to adapt article", e);
+        alert("Couldn't prepare this article for practice right now. Try again later.");
+    } finally {
+        setAdaptingUrl(null);
+    }
+  };
+
+  const handlePastePassage = () => {
+    const validated = validateReadingPassage({ title: pasteTitle, passage: pasteText });
+    if (!validated) return;
+    addPassage({ id: `passage-${Date.now()}`, ...validated, title: pasteTitle.trim() ? validated.title : 'Pasted Passage', source: 'pasted', createdAt: Date.now() });
+    setPasteTitle('');
+    setPasteText('');
+    setShowPasteForm(false);
+  };
+
+  // Written around due words so reading doubles as review; falls back to words in progress
+  const handleGeneratePassage = async () => {
+    if (!appState || isGeneratingPassage) return;
+    const due = getReviewQueue(appState.words, appState.scheduler).filter(w => w.leitnerBox > 0);
+    const dueIds = new Set(due.map(w => w.id));
+    const learning: WordData[] = appState.words.filter(w => !dueIds.has(w.id) && !w.mastered && w.leitnerBox > 0);
+    const targets = [...shuffleArray(due), ...shuffleArray(learning)].slice(0, READING_WORD_COUNT);
+    if (targets.length === 0) {
+        alert("Passages are written around words you're learning. Study a set first, or paste your own text.");
+        return;
+    }
+
+    setIsGeneratingPassage(true);
+    try {
+        const validated = validateReadingPassage(await generateReadingPassage(targets.map(w => w.word)));
+        if (!validated) throw new Error("No usable passage in response");
+        addPassage({ id: `passage-${Date.now()}`, ...validated, source: 'generated', createdAt: Date.now(), targetWordIds: targets.map(w => w.id) });
+    } catch (e) {
+        console.error("Failed to generate passage", e);
+        alert("Couldn't write a passage right now. Check your connection and try again.");
+    } finally {
+        setIsGeneratingPassage(false);
+    }
+  };
+
+  // With no arguments, adds whatever is in the Add Words box; other views pass their own words
+  const handleBulkAddWords = async (words?: string[], fetchNow: boolean = fetchImmediately) => {
+    const fromInput = !words;
+    if (!appState || (fromInput && !newWordInput.trim())) return;
     setIsAddingWords(true);
 
     try {
-        const rawWords = newWordInput.split(/[\n,]+/).map(w => w.trim()).filter(w => w.length > 0);
+        const rawWords = (words || newWordInput.split(/[\n,]+/)).map(w => w.trim()).filter(w => w.length > 0);
         if (rawWords.length === 0) {
             setIsAddingWords(false);
             return;
@@ -356,6 +1028,7 @@ const App: React.FC = () => {
         let updatedWords = [...appState.words];
         const wordIndexMap = new Map(updatedWords.map((w, i) => [w.word.toLowerCase(), i]));
         const idsToQueue: string[] = [];
+        const changedWords: WordData[] = [];
 
         for (const wordStr of uniqueInputs) {
             const wordLower = wordStr.toLowerCase();
@@ -383,6 +1056,7 @@ const App: React.FC = () => {
                 };
             }
 
+            changedWords.push(wordData);
             if (isNew) {
                 updatedWords.push(wordData);
                 wordIndexMap.set(wordLower, updatedWords.length - 1);
@@ -390,8 +1064,8 @@ const App: React.FC = () => {
                 updatedWords[index] = wordData;
             }
 
-            // Always add custom words to the queue if fetchImmediately is on
-            if (fetchImmediately && wordData.definitions.length === 0) {
+            // Always add custom words to the queue if fetchNow is on
+            if (fetchNow && wordData.definitions.length === 0) {
                 idsToQueue.push(wordData.id);
             }
         }
@@ -399,14 +1073,12 @@ const App: React.FC = () => {
         // Update State & DB immediately to clear the UI
         const newState = { ...appState, words: updatedWords };
         setAppState(newState);
-        await saveStoredState(newState);
+        persist(saveWords(changedWords), saveWordOrder(updatedWords));
         
         // Add to background queue
-        if (idsToQueue.length > 0) {
-            setPendingQueue(prev => [...new Set([...prev, ...idsToQueue])]);
-        }
+        enqueueEnrichment(idsToQueue);
 
-        setNewWordInput('');
+        if (fromInput) setNewWordInput('');
     } catch(e) {
         console.error(e);
         alert("An error occurred while adding words.");
@@ -432,7 +1104,7 @@ const App: React.FC = () => {
     const newWords = [...startedSeeds, ...shuffledUnstarted, ...customWords];
     const newState = { ...appState, words: newWords };
     setAppState(newState);
-    await saveStoredState(newState);
+    persist(saveWordOrder(newWords));
     alert("Reshuffled!");
   };
 
@@ -446,23 +1118,120 @@ const App: React.FC = () => {
     linkElement.click();
   };
 
+  // Restoring starts with a merge preview; replacing everything is the fallback offered from there
   const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again should still fire
+    if (!file || !appState) return;
     const fileReader = new FileReader();
-    if (event.target.files && event.target.files.length > 0) {
-        fileReader.readAsText(event.target.files[0], "UTF-8");
-        fileReader.onload = async (e) => {
-            if (e.target && typeof e.target.result === 'string') {
-                try {
-                    const parsedData = JSON.parse(e.target.result) as AppState;
-                    const confirmLoad = window.confirm(`Found backup with ${parsedData.words.length} words. Overwrite?`);
-                    if (confirmLoad) {
-                        setAppState(parsedData);
-                        await saveStoredState(parsedData);
-                        alert("Restored!");
-                    }
-                } catch (error) { alert("Error parsing backup."); }
-            }
+    fileReader.readAsText(file, "UTF-8");
+    fileReader.onload = (e) => {
+        if (!e.target || typeof e.target.result !== 'string') return;
+        try {
+            const parsedData = JSON.parse(e.target.result) as AppState;
+            if (!Array.isArray(parsedData.words)) throw new Error('No words in backup');
+            // Older backups can miss fields added since
+            const backupWords: WordData[] = parsedData.words
+                .filter(w => w && typeof w.word === 'string')
+                .map(w => ({ ...w, definitions: w.definitions || [], examples: w.examples || [], synonyms: w.synonyms || [], etymology: w.etymology || '', aiMnemonic: w.aiMnemonic || '' }));
+            setPendingBackup({ state: normalizeState({ ...parsedData, words: backupWords }), merge: mergeBackup(appState.words, backupWords) });
+        } catch (error) { alert("Error parsing backup."); }
+    };
+  };
+
+  const applyBackupMerge = () => {
+    if (!appState || !pendingBackup) return;
+    // Merge again against the library as it is now: cards may have been studied or edited since the preview was built
+    const { entries, words } = mergeBackup(appState.words, pendingBackup.state.words);
+    const changedImages = entries.filter(entry => entry.word.aiImageUrl && entry.word.aiImageUrl !== entry.previous?.aiImageUrl);
+    setAppState({ ...appState, words });
+    persist(
+        saveWords(entries.map(entry => entry.word)),
+        saveWordOrder(words),
+        ...changedImages.map(entry => saveWordImage(entry.word.id, entry.word.aiImageUrl!))
+    );
+    setPendingBackup(null);
+    alert("Merged!");
+  };
+
+  const replaceWithBackup = () => {
+    if (!pendingBackup) return;
+    const confirmLoad = window.confirm(`Replace everything here with the backup's ${pendingBackup.state.words.length} words? Progress on this device will be lost.`);
+    if (!confirmLoad) return;
+    const restored = normalizeState(pendingBackup.state);
+    const nextState = applyDayRollover(restored) ?? restored;
+    setAppState(nextState);
+    persist(saveStoredState(nextState));
+    setPendingBackup(null);
+    alert("Restored!");
+  };
+
+  // Words from other flashcard apps. Words already here only gain what they're missing, and keep
+  // their own scheduling once they've been studied here.
+  const handleImportDeck = (imported: ImportedWord[]) => {
+    if (!appState || imported.length === 0) return;
+    const updatedWords = [...appState.words];
+    const wordIndexMap = new Map(updatedWords.map((w, i) => [w.word.toLowerCase(), i]));
+    const changedWords: WordData[] = [];
+    const idsToQueue: string[] = [];
+    let addedCount = 0;
+
+    imported.forEach(item => {
+        const index = wordIndexMap.get(item.word.toLowerCase());
+        const existing = index === undefined ? undefined : updatedWords[index];
+        const base: WordData = existing || {
+            id: `custom-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+            word: item.word,
+            definitions: [],
+            examples: [],
+            synonyms: [],
+            etymology: '',
+            aiMnemonic: '',
+            mastered: false,
+            leitnerBox: 0,
+            nextReviewDate: 0
+        };
+        const isUnstudied = base.leitnerBox === 0 && !base.mastered;
+        const wordData: WordData = {
+            ...base,
+            isCustom: true,
+            definitions: base.definitions.length > 0 ? base.definitions : item.definitions,
+            examples: base.examples.length > 0 ? base.examples : item.examples,
+            synonyms: base.synonyms.length > 0 ? base.synonyms : item.synonyms,
+            etymology: base.etymology || item.etymology,
+            aiMnemonic: base.aiMnemonic || item.aiMnemonic || '',
+            ...(!base.userMnemonic && item.userMnemonic ? { userMnemonic: item.userMnemonic } : {}),
+            ...(isUnstudied && item.review ? item.review : {})
         };
+
+        if (index === undefined) {
+            updatedWords.push(wordData);
+            wordIndexMap.set(item.word.toLowerCase(), updatedWords.length - 1);
+            addedCount++;
+        } else {
+            updatedWords[index] = wordData;
+        }
+        changedWords.push(wordData);
+        if (wordData.definitions.length === 0) idsToQueue.push(wordData.id);
+    });
+
+    setAppState({ ...appState, words: updatedWords });
+    persist(saveWords(changedWords), saveWordOrder(updatedWords));
+    enqueueEnrichment(idsToQueue);
+    alert(`Imported ${addedCount} new words and updated ${changedWords.length - addedCount}.`);
+  };
+
+  const handleExportDeck = async (format: DeckExportFormat, scope: LibraryFilter) => {
+    if (!appState) return;
+    const words = appState.words.filter(w => matchesLibraryFilter(w, scope));
+    const name = `gre-vocab-${scope === 'all' ? 'library' : scope}-${toDateKey()}`;
+    try {
+        if (format === 'anki') downloadFile(await buildApkg(words, 'GRE Vocab Master'), `${name}.apkg`, 'application/octet-stream');
+        else if (format === 'quizlet') downloadFile(toQuizletText(words), `${name}-quizlet.txt`, 'text/plain;charset=utf-8');
+        else downloadFile(toDelimitedText(words, format === 'tsv' ? '\t' : ','), `${name}.${format}`, `text/${format === 'tsv' ? 'tab-separated-values' : 'csv'};charset=utf-8`);
+    } catch (e) {
+        console.error('Export failed', e);
+        alert("Couldn't create the export file.");
     }
   };
 
@@ -481,23 +1250,29 @@ const App: React.FC = () => {
   const renderDashboard = () => {
     const seededWords = appState.words.filter(w => w.id.startsWith('seed-'));
     const totalSets = Math.ceil(seededWords.length / WORDS_PER_SET);
-    const reviewQueue = getReviewQueue(appState.words);
+    const reviewQueue = getReviewQueue(appState.words, appState.scheduler);
     const customCount = appState.words.filter(w => w.isCustom || w.id.startsWith('custom-')).length;
     const masteredCountTotal = appState.words.filter(w => w.mastered).length;
     const learningCount = appState.words.filter(w => !w.mastered && w.leitnerBox > 0).length;
+    const reverseQueueCount = getReverseQueue(appState.words, appState.scheduler).length;
+    const currentSetIndex = getCurrentSetIndex(appState.words);
+    const currentSetNewCount = currentSetIndex === -1 ? 0 : getSeedSet(appState.words, currentSetIndex).filter(isNewCard).length;
+    const activeJobCount = enrichmentJobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+    const reviewsToday = getReviewsToday(appState);
+    const allowance = getDailyAllowance(appState);
 
     return (
       <div className="space-y-8 animate-fade-in pb-20">
         
         {/* Background Task Indicator */}
-        {pendingQueue.length > 0 && (
+        {activeJobCount > 0 && (
             <div className="bg-indigo-600 text-white p-3 rounded-xl flex items-center justify-between shadow-lg animate-bounce-short">
                 <div className="flex items-center gap-3">
-                    <CloudArrowDownIcon className="w-6 h-6 animate-pulse" />
-                    <span className="font-bold text-sm">Processing Custom Words Enrichment...</span>
+                    <CloudArrowDownIcon className={`w-6 h-6 ${appState.enrichmentPaused ? '' : 'animate-pulse'}`} />
+                    <span className="font-bold text-sm">{appState.enrichmentPaused ? 'Word Enrichment Paused' : 'Enriching Words in the Background...'}</span>
                 </div>
                 <div className="px-2 py-0.5 bg-indigo-500 rounded-lg text-xs font-bold">
-                    {pendingQueue.length} pending
+                    {activeJobCount} pending
                 </div>
             </div>
         )}
@@ -538,7 +1313,7 @@ const App: React.FC = () => {
                     </label>
 
                     <button 
-                        onClick={handleBulkAddWords}
+                        onClick={() => handleBulkAddWords()}
                         disabled={isAddingWords || !newWordInput.trim()}
                         className="w-full sm:w-auto py-2.5 px-6 bg-indigo-600 text-white rounded-xl hover:bg-indigo-500 disabled:opacity-50 font-bold whitespace-nowrap flex items-center justify-center gap-2 transition-all active:scale-95 shadow-md shadow-indigo-200 dark:shadow-none"
                     >
@@ -554,20 +1329,49 @@ const App: React.FC = () => {
             <div>
               <h1 className="text-3xl md:text-4xl font-serif font-bold mb-2">My Word Sets</h1>
               <p className="opacity-90 text-lg">Master the GRE vocabulary.</p>
+              {(allowance.newCards === 0 || allowance.reviews === 0) && (
+                  <p className="mt-2 text-sm opacity-75">
+                      {allowance.newCards === 0 && allowance.reviews === 0 ? "Today's limits reached." : allowance.newCards === 0 ? "No more new words today." : "No more reviews today."} Starting a session will offer to study ahead.
+                  </p>
+              )}
             </div>
-            <div className="flex gap-8 text-right">
+            <div className="flex items-center gap-8 text-right">
+                 <GoalRing progress={appState.dailyProgress} goal={appState.dailyGoal} />
                  <div>
-                    <div className="text-3xl font-bold">{appState.dailyUniqueProgress}</div>
+                    <div className="text-3xl font-bold">{appState.dailyUniqueProgress}<span className="text-lg opacity-60">/{appState.newCardsPerDay}</span></div>
                     <div className="text-sm opacity-75">New Words</div>
                  </div>
                  <div className="w-px bg-white/30 h-12 self-center"></div>
                  <div>
-                    <div className="text-3xl font-bold">{appState.dailyProgress}</div>
-                    <div className="text-sm opacity-75">Total Reviews</div>
+                    <div className="text-3xl font-bold">{reviewsToday}<span className="text-lg opacity-60">/{appState.maxReviewsPerDay}</span></div>
+                    <div className="text-sm opacity-75">Reviews</div>
                  </div>
             </div>
         </div>
 
+        {/* Today's Session */}
+        {(reviewQueue.length > 0 || currentSetNewCount > 0) && (
+            <div className="bg-white dark:bg-slate-800 border border-indigo-200 dark:border-indigo-800 rounded-2xl p-6 flex flex-col sm:flex-row justify-between sm:items-center gap-4 shadow-sm">
+                <div className="flex items-center gap-4">
+                    <div className="p-3 bg-indigo-100 dark:bg-indigo-900/40 rounded-full text-indigo-600 dark:text-indigo-300">
+                        <PlayCircleIcon className="w-6 h-6" />
+                    </div>
+                    <div>
+                        <h3 className="text-xl font-bold text-slate-800 dark:text-white">Today's Session</h3>
+                        <p className="text-slate-500 dark:text-slate-400 text-sm">
+                            {reviewQueue.length} due reviews{currentSetNewCount > 0 && `, mixed with ${currentSetNewCount} new words from Set ${currentSetIndex + 1}`}.
+                        </p>
+                    </div>
+                </div>
+                <button 
+                    onClick={startTodaySession}
+                    className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl shadow-md transition-colors"
+                >
+                    Start Session
+                </button>
+            </div>
+        )}
+
         {/* SRS Review Section */}
         {reviewQueue.length > 0 && (
             <div className="bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 rounded-2xl p-6 flex justify-between items-center shadow-sm">
@@ -614,6 +1418,30 @@ const App: React.FC = () => {
            </div>
            
            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+               <div onClick={startQuickQuiz} className="bg-purple-50 dark:bg-purple-900/10 border border-purple-200 dark:border-purple-800/50 p-6 rounded-2xl cursor-pointer hover:shadow-md transition-all group">
+                   <div className="w-12 h-12 bg-purple-100 dark:bg-purple-800 rounded-xl flex items-center justify-center text-purple-600 dark:text-purple-300 mb-4 group-hover:scale-110 transition-transform">
+                       <QueueListIcon className="w-7 h-7" />
+                   </div>
+                   <h3 className="font-bold text-slate-900 dark:text-white text-lg">Quick Quiz</h3>
+                   <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Pick the right definition, works offline</p>
+               </div>
+
+               <div onClick={startPractice} className="bg-rose-50 dark:bg-rose-900/10 border border-rose-200 dark:border-rose-800/50 p-6 rounded-2xl cursor-pointer hover:shadow-md transition-all group">
+                   <div className="w-12 h-12 bg-rose-100 dark:bg-rose-800 rounded-xl flex items-center justify-center text-rose-600 dark:text-rose-300 mb-4 group-hover:scale-110 transition-transform">
+                       <AcademicCapIcon className="w-7 h-7" />
+                   </div>
+                   <h3 className="font-bold text-slate-900 dark:text-white text-lg">GRE Practice</h3>
+                   <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Text Completion &amp; Sentence Equivalence</p>
+               </div>
+
+               <div onClick={startReverseSession} className="bg-teal-50 dark:bg-teal-900/10 border border-teal-200 dark:border-teal-800/50 p-6 rounded-2xl cursor-pointer hover:shadow-md transition-all group">
+                   <div className="w-12 h-12 bg-teal-100 dark:bg-teal-800 rounded-xl flex items-center justify-center text-teal-600 dark:text-teal-300 mb-4 group-hover:scale-110 transition-transform">
+                       <ArrowUturnLeftIcon className="w-7 h-7" />
+                   </div>
+                   <h3 className="font-bold text-slate-900 dark:text-white text-lg">Reverse Recall</h3>
+                   <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{reverseQueueCount} Words, meaning to word</p>
+               </div>
+
                <div onClick={() => startCustomSession('mastered')} className="bg-green-50 dark:bg-green-900/10 border border-green-200 dark:border-green-800/50 p-6 rounded-2xl cursor-pointer hover:shadow-md transition-all group">
                    <div className="w-12 h-12 bg-green-100 dark:bg-green-800 rounded-xl flex items-center justify-center text-green-600 dark:text-green-300 mb-4 group-hover:scale-110 transition-transform">
                        <TrophyIcon className="w-7 h-7" />
@@ -667,7 +1495,10 @@ const App: React.FC = () => {
                                   <div className={`h-full rounded-full transition-all duration-1000 ${progress === 100 ? 'bg-green-500' : 'bg-indigo-500'}`} style={{ width: `${progress}%` }} />
                               </div>
                           </div>
-                          <button onClick={() => startSetSession(idx)} disabled={isLoadingWord} className="w-full py-3 rounded-xl bg-slate-50 dark:bg-slate-700 text-indigo-700 dark:text-indigo-300 font-bold hover:bg-indigo-600 hover:text-white dark:hover:bg-indigo-500 transition-colors flex items-center justify-center gap-2"><PlayCircleIcon className="w-5 h-5" />Study Set</button>
+                          <div className="flex gap-2">
+                              <button onClick={() => startSetSession(idx)} disabled={isLoadingWord} className="flex-1 py-3 rounded-xl bg-slate-50 dark:bg-slate-700 text-indigo-700 dark:text-indigo-300 font-bold hover:bg-indigo-600 hover:text-white dark:hover:bg-indigo-500 transition-colors flex items-center justify-center gap-2"><PlayCircleIcon className="w-5 h-5" />Study Set</button>
+                              <button onClick={() => startSetQuiz(idx)} title="Multiple-choice quiz on this set" className="px-4 py-3 rounded-xl bg-slate-50 dark:bg-slate-700 text-purple-700 dark:text-purple-300 font-bold hover:bg-purple-600 hover:text-white dark:hover:bg-purple-500 transition-colors flex items-center justify-center gap-2"><QueueListIcon className="w-5 h-5" />Quiz</button>
+                          </div>
                       </div>
                   );
               })}
@@ -680,14 +1511,7 @@ const App: React.FC = () => {
   const renderLibrary = () => {
     const filteredWords = appState.words.filter(w => {
         const matchesSearch = w.word.toLowerCase().includes(librarySearch.toLowerCase());
-        if (!matchesSearch) return false;
-        switch (libraryFilter) {
-            case 'mastered': return w.mastered;
-            case 'learning': return !w.mastered && w.leitnerBox > 0;
-            case 'new': return !w.mastered && w.leitnerBox === 0;
-            case 'custom': return w.isCustom || w.id.startsWith('custom-');
-            default: return true;
-        }
+        return matchesSearch && matchesLibraryFilter(w, libraryFilter);
     });
 
     const sortedWords = [...filteredWords].sort((a, b) => {
@@ -704,13 +1528,9 @@ const App: React.FC = () => {
         return 0;
     });
 
-    const filters: { id: typeof libraryFilter, label: string }[] = [
-        { id: 'all', label: 'All Words' },
-        { id: 'mastered', label: 'Mastered' },
-        { id: 'learning', label: 'In Progress' },
-        { id: 'new', label: 'Untouched' },
-        { id: 'custom', label: 'My Custom Words' }
-    ];
+    const activeJobIds = new Set(enrichmentJobs.filter(j => j.status === 'queued' || j.status === 'running').map(j => j.wordId));
+    const failedJobIds = new Set(enrichmentJobs.filter(j => j.status === 'failed').map(j => j.wordId));
+    const partialWords = appState.words.filter(w => w.detailsIncomplete && !activeJobIds.has(w.id));
 
     return (
         <div className="space-y-6 animate-fade-in pb-20">
@@ -736,8 +1556,14 @@ const App: React.FC = () => {
                         </div>
                     </div>
                 </div>
+                {partialWords.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-700/50 text-sm">
+                        <span className="text-amber-800 dark:text-amber-200">{partialWords.length} words have incomplete details.</span>
+                        <button onClick={() => enqueueEnrichment(partialWords.map(w => w.id))} className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 text-white font-bold text-xs whitespace-nowrap">Refetch Details</button>
+                    </div>
+                )}
                 <div className="flex gap-2 overflow-x-auto pb-2 hide-scrollbar">
-                    {filters.map(f => (
+                    {LIBRARY_FILTERS.map(f => (
                         <button key={f.id} onClick={() => setLibraryFilter(f.id)} className={`whitespace-nowrap px-4 py-2 rounded-full text-sm font-bold transition-all ${libraryFilter === f.id ? 'bg-indigo-600 text-white shadow-md' : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-400 border border-slate-200 dark:border-slate-700'}`}>{f.label}</button>
                     ))}
                 </div>
@@ -750,35 +1576,48 @@ const App: React.FC = () => {
                             <tr>
                                 <th className="px-6 py-4 font-bold text-sm text-slate-500 dark:text-slate-400 uppercase">Word</th>
                                 <th className="px-6 py-4 font-bold text-sm text-slate-500 dark:text-slate-400 uppercase">Status</th>
+                                <th className="px-6 py-4 font-bold text-sm text-slate-500 dark:text-slate-400 uppercase">Lapses</th>
                                 <th className="px-6 py-4 font-bold text-sm text-slate-500 dark:text-slate-400 uppercase text-right">Action</th>
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-slate-100 dark:divide-slate-700">
                             {sortedWords.length === 0 ? (
-                                <tr><td colSpan={3} className="px-6 py-12 text-center text-slate-400"><div className="flex flex-col items-center gap-2"><FunnelIcon className="w-8 h-8 opacity-20" /><p>No words found.</p></div></td></tr>
+                                <tr><td colSpan={4} className="px-6 py-12 text-center text-slate-400"><div className="flex flex-col items-center gap-2"><FunnelIcon className="w-8 h-8 opacity-20" /><p>No words found.</p></div></td></tr>
                             ) : (
                                 sortedWords.map((word) => (
-                                    <tr key={word.id} className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
+                                    <React.Fragment key={word.id}>
+                                    <tr className="hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors">
                                         <td className="px-6 py-4">
                                             <div className="flex items-center gap-2">
                                                 <span className="font-serif font-bold text-slate-800 dark:text-white text-lg">{word.word}</span>
                                                 {word.isCustom && <span className="px-1.5 py-0.5 rounded bg-indigo-100 text-indigo-700 text-[10px] font-bold">C</span>}
+                                                {word.detailsIncomplete && <span title="Some details were missing or invalid" className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[10px] font-bold">Partial</span>}
                                             </div>
                                             {word.definitions.length > 0 ? (
                                                 <p className="text-xs text-slate-500 truncate max-w-xs mt-1">{word.definitions[0].definition}</p>
                                             ) : (
                                                 <p className="text-xs text-indigo-500 font-medium italic animate-pulse mt-1">
-                                                    {pendingQueue.includes(word.id) ? 'Fetching meaning...' : 'Needs enrichment'}
+                                                    {activeJobIds.has(word.id) ? 'Fetching meaning...' : failedJobIds.has(word.id) ? 'Lookup failed, retry from Settings' : 'Needs enrichment'}
                                                 </p>
                                             )}
                                         </td>
                                         <td className="px-6 py-4">
                                             {word.mastered ? <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"><CheckBadgeIcon className="w-3 h-3" /> Mastered</span> : <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-slate-100 text-slate-800 dark:bg-slate-700 dark:text-slate-300">{word.leitnerBox === 0 ? 'New' : `Level ${word.leitnerBox}`}</span>}
                                         </td>
-                                        <td className="px-6 py-4 text-right">
-                                            <button onClick={() => { setStudyQueue([word]); setCurrentCardIndex(0); setSessionComplete(false); setCurrentView(ViewState.STUDY); }} className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 text-sm font-bold">Study</button>
+                                        <td className="px-6 py-4">
+                                            <span className={`text-sm font-bold ${(word.lapses || 0) > 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-400'}`}>{word.lapses || 0}</span>
+                                        </td>
+                                        <td className="px-6 py-4 text-right whitespace-nowrap">
+                                            <button onClick={() => setExpandedHistoryId(expandedHistoryId === word.id ? null : word.id)} className="text-slate-500 dark:text-slate-400 hover:text-slate-800 dark:hover:text-slate-200 text-sm font-bold mr-4">{expandedHistoryId === word.id ? 'Hide' : 'History'}</button>
+                                            <button onClick={() => prepareStudySession([word])} className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 text-sm font-bold">Study</button>
                                         </td>
                                     </tr>
+                                    {expandedHistoryId === word.id && (
+                                        <tr className="bg-slate-50/50 dark:bg-slate-900/30">
+                                            <td colSpan={4} className="px-6 py-4"><ReviewHistory wordId={word.id} lapses={word.lapses || 0} /></td>
+                                        </tr>
+                                    )}
+                                    </React.Fragment>
                                 ))
                             )}
                         </tbody>
@@ -791,10 +1630,26 @@ const App: React.FC = () => {
 
   const renderStudy = () => {
     if (sessionComplete) {
+      const relearned = Array.from(new Map<string, WordData>(studyQueue.map(w => [w.id, w])).values()).filter(w => sessionMisses[w.id]);
       return (
-        <div className="flex flex-col items-center justify-center h-[60vh] animate-fade-in text-center">
+        <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in text-center">
             <div className="w-20 h-20 bg-green-100 dark:bg-green-900/30 rounded-full flex items-center justify-center mb-6"><BookOpenIcon className="w-10 h-10 text-green-600 dark:text-green-400" /></div>
             <h2 className="text-3xl font-serif font-bold text-slate-800 dark:text-white mb-2">Session Complete!</h2>
+            <p className="text-slate-500 dark:text-slate-400 mb-6">{studyQueue.length} cards answered{relearned.length === 0 && ', every word recalled on the first try'}.</p>
+            {relearned.length > 0 && (
+                <div className="w-full max-w-md mb-8 text-left bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 p-6">
+                    <h3 className="font-bold text-slate-800 dark:text-white">Needed Relearning</h3>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">Forgotten during the session, then recalled before it ended.</p>
+                    <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+                        {relearned.map(word => (
+                            <li key={word.id} className="flex items-center justify-between py-2">
+                                <span className="font-serif font-bold text-slate-800 dark:text-white">{word.word}</span>
+                                <span className="text-xs font-bold text-red-600 dark:text-red-400">missed {sessionMisses[word.id]}×</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             <button onClick={() => setCurrentView(ViewState.DASHBOARD)} className="px-8 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700">Back to Dashboard</button>
         </div>
       );
@@ -811,28 +1666,278 @@ const App: React.FC = () => {
     }
     return (
       <div className="flex flex-col items-center pb-20">
-         <div className="w-full flex justify-between items-center mb-4 text-sm font-medium text-slate-400"><span>Card {currentCardIndex + 1} of {studyQueue.length}</span><span>Set Progress</span></div>
+         <div className="w-full flex justify-between items-center mb-4 text-sm font-medium text-slate-400"><span>Card {currentCardIndex + 1} of {studyQueue.length}</span><span>{learningCards.length > 0 ? `${learningCards.length} in learning` : 'Set Progress'}</span></div>
          <div className="w-full h-1 bg-slate-200 dark:bg-slate-700 rounded-full mb-8"><div className="h-full bg-indigo-500 transition-all duration-300 rounded-full" style={{ width: `${((currentCardIndex + 1) / studyQueue.length) * 100}%` }} /></div>
-         <Flashcard key={currentWord.id} wordData={currentWord} onUpdateMnemonic={handleMnemonicUpdate} onUpdateImage={handleImageUpdate} onNext={handleCardNext} />
+         {studyDirection === 'reverse'
+             ? <ReverseCard key={`${currentWord.id}-${currentCardIndex}`} wordData={currentWord} confusables={appState.words.map(w => w.word)} onNext={handleCardNext} keyboardShortcuts={appState.keyboardShortcuts} />
+             : <Flashcard key={`${currentWord.id}-${currentCardIndex}`} wordData={currentWord} libraryWord={appState.words.find(w => w.id === currentWord.id)} detailsPending={!connectivity.online} onUpdateMnemonic={handleMnemonicUpdate} onUpdateImage={handleImageUpdate} onNext={handleCardNext} scheduler={appState.scheduler} keyboardShortcuts={appState.keyboardShortcuts} learningStep={learningCards.find(c => c.word.id === currentWord.id)?.step} />}
       </div>
     );
   };
 
+  const renderAttemptSummary = (passage: ReadingPassage): string => {
+      const attempts = getAttemptsFor(rcAttempts, passage.id, passage.url);
+      if (attempts.length === 0) return passage.questions ? 'Not attempted yet' : 'No questions yet';
+      const best = attempts.reduce((a, b) => (b.score / b.total > a.score / a.total ? b : a));
+      return `Last ${attempts[0].score}/${attempts[0].total} · Best ${best.score}/${best.total} · ${attempts.length} attempt${attempts.length === 1 ? '' : 's'}`;
+  };
+
   const renderReading = () => {
-      if (articles.length === 0 && !loadingArticles) loadReadings();
+      const rcPassage = rcPassageId ? passages.find(p => p.id === rcPassageId) : undefined;
+      if (rcPassage) {
+          return (
+              <ComprehensionSession
+                  key={rcKey}
+                  passage={rcPassage}
+                  questions={rcQuestions}
+                  history={getAttemptsFor(rcAttempts, rcPassage.id, rcPassage.url)}
+                  onFinish={handleRcFinish}
+                  onExit={exitComprehension}
+              />
+          );
+      }
+      const activePassage = passages.find(p => p.id === activePassageId);
+      const today = toDateKey();
+      const [currentDay, ...earlierDays] = readingDays;
+      const peekWord = peekWordId ? appState.words.find(w => w.id === peekWordId) : undefined;
+      const fetchingIds = new Set(enrichmentJobs.filter(j => j.status === 'queued' || j.status === 'running').map(j => j.wordId));
       return (
           <div className="max-w-3xl mx-auto pb-20">
-             <div className="mb-8 border-b border-slate-200 dark:border-slate-800 pb-6"><h1 className="text-3xl font-serif font-bold text-slate-900 dark:text-white mb-2">Daily Picks</h1></div>
-             {loadingArticles ? <div className="space-y-6">{[1,2,3].map(i => <div key={i} className="bg-white dark:bg-slate-800 p-6 rounded-xl animate-pulse"><div className="h-6 bg-slate-200 dark:bg-slate-700 w-3/4 rounded mb-4"></div></div>)}</div> : <div className="space-y-6">{articles.map((article, idx) => <div key={idx} className="bg-white dark:bg-slate-800 p-8 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm hover:shadow-md transition-shadow group"><h3 className="text-2xl font-serif font-bold text-slate-900 dark:text-white mb-3 group-hover:text-indigo-700 dark:group-hover:text-indigo-400 transition-colors"><a href={article.url} target="_blank" rel="noopener noreferrer">{article.title}</a></h3><p className="text-slate-600 dark:text-slate-300 mb-4">{article.summary}</p></div>)}</div>}
+             <div className="mb-8 border-b border-slate-200 dark:border-slate-800 pb-6"><h1 className="text-3xl font-serif font-bold text-slate-900 dark:text-white mb-2">Reading Room</h1><p className="text-slate-500 dark:text-slate-400">Meet your words in context. Tap a highlighted word to see its card.</p></div>
+
+             <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm mb-6">
+                 <div className="flex flex-col sm:flex-row gap-3">
+                     <button onClick={handleGeneratePassage} disabled={isGeneratingPassage} className="flex-1 py-3 px-4 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+                         {isGeneratingPassage ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <SparklesIcon className="w-5 h-5" />}
+                         {isGeneratingPassage ? 'Writing Passage...' : 'Passage from Due Words'}
+                     </button>
+                     <button onClick={() => setShowPasteForm(prev => !prev)} className="flex-1 py-3 px-4 border-2 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 font-bold rounded-xl flex items-center justify-center gap-2 hover:border-indigo-300">
+                         <DocumentPlusIcon className="w-5 h-5" /> Paste Text
+                     </button>
+                 </div>
+                 {showPasteForm && (
+                     <div className="mt-4 space-y-3 animate-fade-in">
+                         <input value={pasteTitle} onChange={(e) => setPasteTitle(e.target.value)} placeholder="Title (optional)" className="w-full px-4 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 dark:text-white" />
+                         <textarea value={pasteText} onChange={(e) => setPasteText(e.target.value)} placeholder="Paste an article or paragraph..." rows={6} className="w-full px-4 py-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-slate-900 dark:text-white font-serif" />
+                         <button onClick={handlePastePassage} disabled={!pasteText.trim()} className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl">Read It</button>
+                     </div>
+                 )}
+                 {passages.length > 0 && (
+                     <div className="flex gap-2 overflow-x-auto mt-4 pt-4 border-t border-slate-100 dark:border-slate-700 hide-scrollbar">
+                         {passages.map(p => (
+                             <button key={p.id} onClick={() => setActivePassageId(p.id === activePassageId ? null : p.id)} className={`whitespace-nowrap px-3 py-1.5 rounded-full text-sm font-bold transition-all ${p.id === activePassageId ? 'bg-indigo-600 text-white' : 'bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300'}`}>
+                                 {p.title}
+                             </button>
+                         ))}
+                     </div>
+                 )}
+             </div>
+
+             {activePassage && (
+                 <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm mb-10 animate-fade-in">
+                     <div className="flex items-start justify-between gap-4 mb-4">
+                         <div>
+                             <h2 className="text-2xl font-serif font-bold text-slate-900 dark:text-white">{activePassage.title}</h2>
+                             <span className="text-xs text-slate-400">{PASSAGE_SOURCE_LABELS[activePassage.source]} · {new Date(activePassage.createdAt).toLocaleDateString()}</span>
+                         </div>
+                         <button onClick={() => handleDeletePassage(activePassage.id)} className="text-xs font-bold text-slate-400 hover:text-red-500 shrink-0">Remove</button>
+                     </div>
+                     <PassageReader text={activePassage.text} words={appState.words} onOpenWord={(word) => setPeekWordId(word.id)} onAddWord={(word) => handleBulkAddWords([word], true)} />
+                     <div className="flex items-center justify-between gap-4 mt-6 pt-6 border-t border-slate-100 dark:border-slate-700">
+                         <span className="text-sm text-slate-500 dark:text-slate-400">{renderAttemptSummary(activePassage)}</span>
+                         <button onClick={() => startComprehension(activePassage)} className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center gap-2 shrink-0">
+                             <AcademicCapIcon className="w-5 h-5" /> Practice Questions
+                         </button>
+                     </div>
+                 </div>
+             )}
+
+             <div className="flex items-end justify-between gap-4 mb-4">
+                 <div>
+                     <h2 className="text-xl font-serif font-bold text-slate-900 dark:text-white">Daily Picks</h2>
+                     {currentDay && (
+                         <p className="text-xs text-slate-400">
+                             {currentDay.date === today
+                                 ? `Fetched today at ${new Date(currentDay.fetchedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`
+                                 : `Saved picks from ${new Date(currentDay.fetchedAt).toLocaleDateString()}`}
+                         </p>
+                     )}
+                 </div>
+                 <button onClick={() => loadReadings(true)} disabled={loadingArticles} className="flex items-center gap-1 text-sm font-bold text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 disabled:opacity-50">
+                     <ArrowPathIcon className={`w-4 h-4 ${loadingArticles ? 'animate-spin' : ''}`} /> {currentDay?.date === today ? 'Refresh' : 'Fetch Today\'s'}
+                 </button>
+             </div>
+             {readingsError && (
+                 <div className={`flex items-center justify-between gap-4 p-4 rounded-xl mb-6 text-sm ${currentDay ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 border border-amber-200 dark:border-amber-700/50' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200 border border-red-200 dark:border-red-800'}`}>
+                     <span>{readingsError}</span>
+                     {!currentDay && <button onClick={() => loadReadings(true)} disabled={loadingArticles} className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white font-bold text-xs whitespace-nowrap disabled:opacity-50">Try Again</button>}
+                 </div>
+             )}
+             {loadingArticles && !currentDay ? <div className="space-y-6">{[1,2,3].map(i => <div key={i} className="bg-white dark:bg-slate-800 p-6 rounded-xl animate-pulse"><div className="h-6 bg-slate-200 dark:bg-slate-700 w-3/4 rounded mb-4"></div></div>)}</div> : currentDay && (
+                 <div className="space-y-6">
+                     {currentDay.articles.map((article, idx) => {
+                         const adapted = passages.find(p => p.url === article.url);
+                         const isRead = currentDay.readUrls.includes(article.url);
+                         return (
+                             <div key={idx} className="bg-white dark:bg-slate-800 p-8 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm hover:shadow-md transition-shadow group">
+                                 <div className="flex items-start justify-between gap-4 mb-3">
+                                     <h3 className="text-2xl font-serif font-bold text-slate-900 dark:text-white group-hover:text-indigo-700 dark:group-hover:text-indigo-400 transition-colors"><a href={article.url} target="_blank" rel="noopener noreferrer" onClick={() => setArticleRead(currentDay.date, article.url, true)}>{article.title}</a></h3>
+                                     <button onClick={() => setArticleRead(currentDay.date, article.url, !isRead)} className={`shrink-0 px-2 py-1 rounded-full text-xs font-bold ${isRead ? 'bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300' : 'bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300'}`}>
+                                         {isRead ? 'Read' : 'Unread'}
+                                     </button>
+                                 </div>
+                                 <p className="text-slate-600 dark:text-slate-300 mb-4">{article.summary}</p>
+                                 <div className="flex items-center justify-between gap-4">
+                                     <span className="text-xs text-slate-400">{adapted ? renderAttemptSummary(adapted) : article.source}</span>
+                                     <button onClick={() => handleArticlePractice(article)} disabled={adaptingUrl !== null} className="px-4 py-2 border-2 border-indigo-200 dark:border-indigo-800 text-indigo-700 dark:text-indigo-300 text-sm font-bold rounded-xl flex items-center gap-2 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 disabled:opacity-50 shrink-0">
+                                         {adaptingUrl === article.url ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <AcademicCapIcon className="w-4 h-4" />}
+                                         {adaptingUrl === article.url ? 'Preparing...' : 'Practice'}
+                                     </button>
+                                 </div>
+                             </div>
+                         );
+                     })}
+                 </div>
+             )}
+
+             {earlierDays.length > 0 && (
+                 <div className="mt-10">
+                     <h2 className="text-xl font-serif font-bold text-slate-900 dark:text-white mb-4">Reading History</h2>
+                     <div className="space-y-4">
+                         {earlierDays.map(day => {
+                             const unread = day.articles.filter(a => !day.readUrls.includes(a.url)).length;
+                             return (
+                                 <div key={day.date} className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                                     <div className="flex justify-between px-4 py-3 border-b border-slate-100 dark:border-slate-700 text-sm">
+                                         <span className="font-bold text-slate-700 dark:text-slate-200">{new Date(day.fetchedAt).toLocaleDateString()}</span>
+                                         <span className="text-slate-400">{unread > 0 ? `${unread} unread` : 'All read'}</span>
+                                     </div>
+                                     {day.articles.map(article => {
+                                         const isRead = day.readUrls.includes(article.url);
+                                         return (
+                                             <div key={article.url} className="flex items-center justify-between gap-4 px-4 py-2">
+                                                 <a href={article.url} target="_blank" rel="noopener noreferrer" onClick={() => setArticleRead(day.date, article.url, true)} className={`text-sm truncate hover:text-indigo-600 ${isRead ? 'text-slate-400' : 'text-slate-700 dark:text-slate-200 font-medium'}`}>{article.title}</a>
+                                                 <button onClick={() => setArticleRead(day.date, article.url, !isRead)} className="shrink-0 text-xs font-bold text-slate-400 hover:text-indigo-600">{isRead ? 'Mark unread' : 'Mark read'}</button>
+                                             </div>
+                                         );
+                                     })}
+                                 </div>
+                             );
+                         })}
+                     </div>
+                 </div>
+             )}
+
+             {peekWord && <WordPeek word={peekWord} isFetching={fetchingIds.has(peekWord.id)} onStudy={(word) => { setPeekWordId(null); prepareStudySession([word]); }} onClose={() => setPeekWordId(null)} />}
           </div>
       );
   };
 
   const renderSettings = () => {
+      const enabledProviders = appState.dictionaryProviders;
+      const disabledProviders = (Object.keys(DICTIONARY_PROVIDERS) as DictionaryProviderId[])
+          .filter(id => !enabledProviders.includes(id) && !DICTIONARY_PROVIDERS[id].testOnly);
       return (
           <div className="max-w-xl mx-auto animate-fade-in pb-20">
              <div className="mb-8 border-b border-slate-200 dark:border-slate-800 pb-6"><h1 className="text-3xl font-serif font-bold text-slate-900 dark:text-white mb-2">Data Management</h1></div>
              <div className="space-y-6">
+                 <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                     <div className="flex items-start gap-4 mb-6"><div className="p-3 bg-amber-50 dark:bg-amber-900/30 rounded-xl"><ClockIcon className="w-6 h-6 text-amber-600 dark:text-amber-400" /></div><div><h3 className="text-xl font-bold text-slate-800 dark:text-white">Scheduling Algorithm</h3><p className="text-sm text-slate-500 dark:text-slate-400">Existing progress is carried over when you switch.</p></div></div>
+                     <div className="space-y-3">
+                         {Object.values(SCHEDULERS).map(s => (
+                             <button key={s.id} onClick={() => handleSchedulerChange(s.id)} className={`w-full text-left p-4 rounded-xl border-2 transition-colors ${appState.scheduler === s.id ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300'}`}>
+                                 <div className="font-bold text-slate-800 dark:text-white">{s.label}</div>
+                                 <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">{s.description}</div>
+                             </button>
+                         ))}
+                     </div>
+                     <label className="flex items-center justify-between gap-4 mt-6 pt-6 border-t border-slate-100 dark:border-slate-700 cursor-pointer">
+                         <div>
+                             <div className="font-bold text-slate-800 dark:text-white">Keyboard Shortcuts</div>
+                             <div className="text-xs text-slate-500 dark:text-slate-400">Space reveals a card, 1-4 grade it Again / Hard / Good / Easy.</div>
+                         </div>
+                         <input type="checkbox" checked={appState.keyboardShortcuts} onChange={toggleKeyboardShortcuts} className="w-5 h-5 accent-indigo-600" />
+                     </label>
+                     <label className="flex items-center justify-between gap-4 mt-6 pt-6 border-t border-slate-100 dark:border-slate-700">
+                         <div>
+                             <div className="font-bold text-slate-800 dark:text-white">New Day Starts At</div>
+                             <div className="text-xs text-slate-500 dark:text-slate-400">Late-night reviews before this hour count toward the day before, for the streak and daily goal.</div>
+                         </div>
+                         <select value={appState.dayStartHour} onChange={(e) => handleDayStartHourChange(Number(e.target.value))} className="p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-white text-sm font-bold">
+                             {[0, 1, 2, 3, 4, 5, 6].map(hour => <option key={hour} value={hour}>{hour === 0 ? 'Midnight' : `${hour}:00 AM`}</option>)}
+                         </select>
+                     </label>
+                     <div className="mt-4 text-xs text-slate-500 dark:text-slate-400">
+                         🧊 {appState.streakFreezes} of {MAX_STREAK_FREEZES} streak freezes saved. You earn one every {STREAK_FREEZE_EVERY_DAYS} days of streak, and each covers one missed day.
+                     </div>
+                 </div>
+                 <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                     <div className="flex items-start gap-4 mb-6"><div className="p-3 bg-green-50 dark:bg-green-900/30 rounded-xl"><FlagIcon className="w-6 h-6 text-green-600 dark:text-green-400" /></div><div><h3 className="text-xl font-bold text-slate-800 dark:text-white">Daily Goal &amp; Limits</h3><p className="text-sm text-slate-500 dark:text-slate-400">Set, review and today's sessions stop at the limits; you can still choose to study ahead.</p></div></div>
+                     <div className="space-y-4">
+                         {([
+                             { field: 'dailyGoal', label: 'Daily Goal', description: 'Cards to answer each day, shown as the ring on the dashboard.' },
+                             { field: 'newCardsPerDay', label: 'New Words per Day', description: 'Words studied for the first time.' },
+                             { field: 'maxReviewsPerDay', label: 'Max Reviews per Day', description: 'Answers for words you have already started.' }
+                         ] as const).map(({ field, label, description }) => (
+                             <label key={field} className="flex items-center justify-between gap-4">
+                                 <div>
+                                     <div className="font-bold text-slate-800 dark:text-white">{label}</div>
+                                     <div className="text-xs text-slate-500 dark:text-slate-400">{description}</div>
+                                 </div>
+                                 <input type="number" min={field === 'dailyGoal' ? 1 : 0} value={appState[field]} onChange={(e) => handleDailyLimitChange(field, Number(e.target.value))} className="w-24 p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-white text-sm font-bold text-right" />
+                             </label>
+                         ))}
+                         <label className="flex items-center justify-between gap-4">
+                             <div>
+                                 <div className="font-bold text-slate-800 dark:text-white">Today's Session Mix</div>
+                                 <div className="text-xs text-slate-500 dark:text-slate-400">How often a new word is mixed in between due reviews.</div>
+                             </div>
+                             <select value={appState.reviewsPerNewWord} onChange={(e) => handleReviewsPerNewWordChange(Number(e.target.value))} className="p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-800 dark:text-white text-sm font-bold">
+                                 {[1, 2, 3, 4, 5, 8, 10].map(n => <option key={n} value={n}>1 new per {n} review{n === 1 ? '' : 's'}</option>)}
+                             </select>
+                         </label>
+                     </div>
+                 </div>
+                 <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                     <div className="flex items-start gap-4 mb-6"><div className="p-3 bg-sky-50 dark:bg-sky-900/30 rounded-xl"><BookOpenIcon className="w-6 h-6 text-sky-600 dark:text-sky-400" /></div><div><h3 className="text-xl font-bold text-slate-800 dark:text-white">Dictionary Sources</h3><p className="text-sm text-slate-500 dark:text-slate-400">Enabled sources are tried top to bottom until one has the word.</p></div></div>
+                     <div className="space-y-3">
+                         {[...enabledProviders, ...disabledProviders].map(id => {
+                             const provider = DICTIONARY_PROVIDERS[id];
+                             const position = enabledProviders.indexOf(id);
+                             const isEnabled = position !== -1;
+                             const move = (delta: number) => {
+                                 const order = [...enabledProviders];
+                                 [order[position], order[position + delta]] = [order[position + delta], order[position]];
+                                 handleDictionaryProvidersChange(order);
+                             };
+                             return (
+                                 <div key={id} className={`flex items-center gap-3 p-4 rounded-xl border-2 ${isEnabled ? 'border-indigo-200 dark:border-indigo-800' : 'border-slate-200 dark:border-slate-700 opacity-60'}`}>
+                                     <input type="checkbox" checked={isEnabled} onChange={() => handleDictionaryProvidersChange(isEnabled ? enabledProviders.filter(p => p !== id) : [...enabledProviders, id])} className="w-5 h-5 accent-indigo-600 shrink-0" />
+                                     <div className="flex-1 min-w-0">
+                                         <div className="font-bold text-slate-800 dark:text-white">{isEnabled && <span className="text-indigo-500 mr-1">{position + 1}.</span>}{provider.label}</div>
+                                         <div className="text-xs text-slate-500 dark:text-slate-400 mt-1">{provider.description}</div>
+                                     </div>
+                                     {isEnabled && (
+                                         <div className="flex flex-col gap-1 shrink-0">
+                                             <button onClick={() => move(-1)} disabled={position === 0} className="px-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30">▲</button>
+                                             <button onClick={() => move(1)} disabled={position === enabledProviders.length - 1} className="px-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30">▼</button>
+                                         </div>
+                                     )}
+                                 </div>
+                             );
+                         })}
+                     </div>
+                 </div>
+                 <EnrichmentQueuePanel
+                     jobs={enrichmentJobs}
+                     words={appState.words}
+                     paused={appState.enrichmentPaused}
+                     setCount={Math.ceil(appState.words.filter(w => w.id.startsWith('seed-')).length / WORDS_PER_SET)}
+                     onTogglePause={toggleEnrichmentPaused}
+                     onRetryFailed={handleRetryFailedJobs}
+                     onClearFinished={handleClearFinishedJobs}
+                     onEnrichSet={handleEnrichSet}
+                 />
                  <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
                      <div className="flex items-start gap-4 mb-6"><div className="p-3 bg-purple-50 dark:bg-purple-900/30 rounded-xl"><ArrowsRightLeftIcon className="w-6 h-6 text-purple-600 dark:text-purple-400" /></div><div><h3 className="text-xl font-bold text-slate-800 dark:text-white">Reshuffle Content</h3></div></div>
                      <button onClick={handleSmartReshuffle} className="w-full py-3 bg-purple-600 hover:bg-purple-700 text-white font-bold rounded-xl transition-colors">Randomize Future Sets</button>
@@ -842,20 +1947,38 @@ const App: React.FC = () => {
                      <button onClick={handleExportData} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl transition-colors">Download Backup File</button>
                  </div>
                  <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
-                     <div className="flex items-start gap-4 mb-6"><div className="p-3 bg-green-50 dark:bg-green-900/30 rounded-xl"><ArrowUpTrayIcon className="w-6 h-6 text-green-600 dark:text-green-400" /></div><div><h3 className="text-xl font-bold text-slate-800 dark:text-white">Restore / Import</h3></div></div>
+                     <div className="flex items-start gap-4 mb-6"><div className="p-3 bg-green-50 dark:bg-green-900/30 rounded-xl"><ArrowUpTrayIcon className="w-6 h-6 text-green-600 dark:text-green-400" /></div><div><h3 className="text-xl font-bold text-slate-800 dark:text-white">Restore / Import</h3><p className="text-sm text-slate-500 dark:text-slate-400">Merges with what's here; you'll see the changes first.</p></div></div>
                      <div className="relative"><input type="file" accept=".json" onChange={handleImportData} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" /><button className="w-full py-3 bg-white dark:bg-slate-800 border-2 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 font-bold rounded-xl transition-colors dashed">Select Backup File</button></div>
                  </div>
+                 {pendingBackup && (
+                     <BackupMergePreview
+                         merge={pendingBackup.merge}
+                         backupWordCount={pendingBackup.state.words.length}
+                         onApply={applyBackupMerge}
+                         onReplace={replaceWithBackup}
+                         onCancel={() => setPendingBackup(null)}
+                     />
+                 )}
+                 <DeckTransferPanel
+                     scopes={LIBRARY_FILTERS.map(f => ({ ...f, count: appState.words.filter(w => matchesLibraryFilter(w, f.id)).length }))}
+                     onImport={handleImportDeck}
+                     onExport={handleExportDeck}
+                 />
              </div>
           </div>
       );
   };
 
   return (
-    <Layout currentView={currentView} onChangeView={setCurrentView} streak={appState ? appState.streak : 0} isDarkMode={appState ? !!appState.darkMode : false} onToggleDarkMode={toggleDarkMode}>
+    <Layout currentView={currentView} onChangeView={setCurrentView} streak={appState ? appState.streak : 0} streakFreezes={appState ? appState.streakFreezes : 0} isDarkMode={appState ? !!appState.darkMode : false} onToggleDarkMode={toggleDarkMode} saveStatus={saveStatus} onRetrySave={handleRetrySave} onPruneImages={handlePruneImages} connectivity={connectivity}>
        {currentView === ViewState.DASHBOARD && renderDashboard()}
        {currentView === ViewState.LIBRARY && renderLibrary()}
        {currentView === ViewState.STUDY && renderStudy()}
+       {currentView === ViewState.QUIZ && <Quiz key={quizKey} questions={quizQuestions} skippedCount={quizSkippedCount} onAnswer={(wordId, answer) => recordReviews([{ wordId, answer }])} onExit={() => setCurrentView(ViewState.DASHBOARD)} keyboardShortcuts={appState.keyboardShortcuts} />}
+       {currentView === ViewState.PRACTICE && <PracticeSession key={practiceKey} items={practiceItems} onAnswer={recordReviews} onExit={() => setCurrentView(ViewState.DASHBOARD)} />}
+       {currentView === ViewState.GROUPS && <GroupsView words={appState.words} aiGroups={wordGroups} isGrouping={isGroupingWords} onGroupWithAI={handleGroupWithAI} onStudyCluster={startClusterSession} />}
        {currentView === ViewState.READING && renderReading()}
+       {currentView === ViewState.STATS && <StatsView words={appState.words} onStudyWords={(words) => prepareStudySession(words)} />}
        {currentView === ViewState.SETTINGS && renderSettings()}
     </Layout>
   );
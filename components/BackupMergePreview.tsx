@@ -0,0 +1,80 @@
+import React, { useState, useEffect } from 'react';
+import { BackupMerge, MergeOutcome } from '../utils/backupMerge';
+import { XMarkIcon, PlusCircleIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface BackupMergePreviewProps {
+  merge: BackupMerge;
+  backupWordCount: number;
+  onApply: () => void;
+  onReplace: () => void; // Overwrite everything with the backup instead
+  onCancel: () => void;
+}
+
+const TABS: { id: MergeOutcome; label: string; icon: React.ElementType; style: string }[] = [
+  { id: 'added', label: 'Added', icon: PlusCircleIcon, style: 'text-green-600 dark:text-green-400' },
+  { id: 'updated', label: 'Updated', icon: ArrowPathIcon, style: 'text-indigo-600 dark:text-indigo-400' },
+  { id: 'conflicting', label: 'Conflicting', icon: ExclamationTriangleIcon, style: 'text-amber-600 dark:text-amber-400' },
+];
+
+// What merging a backup would change, shown before anything is written
+const BackupMergePreview: React.FC<BackupMergePreviewProps> = ({ merge, backupWordCount, onApply, onReplace, onCancel }) => {
+  const counts: Record<MergeOutcome, number> = { added: 0, updated: 0, conflicting: 0 };
+  merge.entries.forEach(entry => { counts[entry.outcome]++; });
+  const [tab, setTab] = useState<MergeOutcome>(TABS.find(t => counts[t.id] > 0)?.id || 'added');
+  const shown = merge.entries.filter(entry => entry.outcome === tab);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onCancel(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-end sm:items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div className="w-full max-w-lg max-h-[85vh] flex flex-col bg-white dark:bg-slate-800 rounded-3xl shadow-2xl border border-slate-100 dark:border-slate-700 p-6 animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-2xl font-serif font-bold text-slate-900 dark:text-white">Merge Backup</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400">
+              {backupWordCount} words in the backup, {merge.unchangedCount} already match. Settings and streak stay as they are here.
+            </p>
+          </div>
+          <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white"><XMarkIcon className="w-6 h-6" /></button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          {TABS.map(t => (
+            <button key={t.id} onClick={() => setTab(t.id)} className={`p-3 rounded-xl border-2 text-center transition-colors ${tab === t.id ? 'border-indigo-600 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700'}`}>
+              <t.icon className={`w-5 h-5 mx-auto mb-1 ${t.style}`} />
+              <div className="text-xl font-bold text-slate-800 dark:text-white">{counts[t.id]}</div>
+              <div className="text-xs font-bold text-slate-400 uppercase">{t.label}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 min-h-[6rem] overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700 border border-slate-100 dark:border-slate-700 rounded-xl mb-4">
+          {shown.length === 0 && <p className="p-4 text-sm text-slate-400 text-center">Nothing here.</p>}
+          {shown.map(entry => (
+            <div key={entry.word.id} className="px-4 py-2">
+              <div className="font-bold text-slate-800 dark:text-white">{entry.word.word}</div>
+              {entry.outcome === 'added' ? (
+                <div className="text-xs text-slate-500 dark:text-slate-400">{entry.word.mastered ? 'Mastered' : entry.word.leitnerBox > 0 ? `Box ${entry.word.leitnerBox}` : 'Not studied yet'}</div>
+              ) : (
+                <ul className="text-xs text-slate-500 dark:text-slate-400 list-disc pl-4">
+                  {entry.notes.map(note => <li key={note}>{note}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <button onClick={onApply} disabled={merge.entries.length === 0} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl transition-colors">
+          {merge.entries.length === 0 ? 'Nothing to Merge' : `Merge ${merge.entries.length} Words`}
+        </button>
+        <button onClick={onReplace} className="w-full mt-2 py-2 text-sm font-bold text-red-500 hover:text-red-700">Replace Everything with the Backup Instead</button>
+      </div>
+    </div>
+  );
+};
+
+export default BackupMergePreview;
@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { RcAttempt, RcQuestion, RcQuestionType, ReadingPassage } from '../types';
+import { splitSentences, isRcAnswerCorrect, formatDuration, SECONDS_PER_RC_QUESTION } from '../utils/comprehension';
+import { CheckCircleIcon, XCircleIcon, TrophyIcon, ArrowRightIcon, ArrowPathIcon, LightBulbIcon, ClockIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+
+interface ComprehensionSessionProps {
+  passage: ReadingPassage;
+  questions: RcQuestion[] | null; // Null while the questions are being generated
+  history: RcAttempt[]; // Earlier attempts at this passage, newest first
+  onFinish: (attempt: RcAttempt) => void;
+  onExit: () => void;
+}
+
+const TYPE_LABELS: Record<RcQuestionType, string> = {
+  'main-idea': 'Main Idea',
+  'inference': 'Inference',
+  'vocab-in-context': 'Vocabulary in Context',
+  'select-in-passage': 'Select in Passage',
+};
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E'];
+
+const ComprehensionSession: React.FC<ComprehensionSessionProps> = ({ passage, questions, history, onFinish, onExit }) => {
+  const [index, setIndex] = useState(0);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [checked, setChecked] = useState(false);
+  const [results, setResults] = useState<boolean[]>([]);
+  const [finishedMs, setFinishedMs] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // The clock starts once the questions are on screen, as the passage is read against it too
+  const startedAt = useRef<number | null>(null);
+  useEffect(() => {
+    if (questions && startedAt.current === null) startedAt.current = Date.now();
+  }, [questions]);
+  useEffect(() => {
+    if (!questions || finishedMs !== null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [questions, finishedMs]);
+
+  const sentences = useMemo(() => splitSentences(passage.text), [passage.text]);
+  const paragraphs = useMemo(() => {
+    // Sentence indexes per paragraph, so select-in-passage can still show paragraph breaks
+    let offset = 0;
+    return passage.text.split(/\n\s*\n/).filter(p => p.trim()).map(p => {
+      const count = splitSentences(p).length;
+      const range = Array.from({ length: count }, (_, i) => offset + i);
+      offset += count;
+      return range;
+    });
+  }, [passage.text]);
+
+  if (!questions) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <ArrowPathIcon className="w-16 h-16 text-indigo-500 animate-spin mb-6" />
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Writing Questions...</h2>
+      </div>
+    );
+  }
+
+  const question = questions[index];
+  const isSelectInPassage = question?.type === 'select-in-passage';
+  const isSelectAll = question && !isSelectInPassage && question.options.length === 3;
+  const elapsedMs = finishedMs ?? (startedAt.current ? now - startedAt.current : 0);
+  const targetMs = questions.length * SECONDS_PER_RC_QUESTION * 1000;
+
+  const handleSelect = (i: number) => {
+    if (checked) return;
+    if (isSelectAll) setSelected(prev => (prev.includes(i) ? prev.filter(x => x !== i) : [...prev, i]));
+    else setSelected([i]);
+  };
+
+  const handleCheck = () => {
+    if (checked || selected.length === 0) return;
+    setChecked(true);
+    setResults(prev => [...prev, isRcAnswerCorrect(question, selected)]);
+  };
+
+  const handleContinue = () => {
+    if (index < questions.length - 1) {
+      setIndex(prev => prev + 1);
+      setSelected([]);
+      setChecked(false);
+      return;
+    }
+    const durationMs = Date.now() - (startedAt.current || Date.now());
+    setFinishedMs(durationMs);
+    onFinish({
+      passageId: passage.id,
+      url: passage.url,
+      score: results.filter(Boolean).length,
+      total: questions.length,
+      durationMs,
+      completedAt: Date.now()
+    });
+  };
+
+  if (finishedMs !== null) {
+    const score = results.filter(Boolean).length;
+    return (
+      <div className="max-w-2xl mx-auto pb-20 animate-fade-in">
+        <div className="text-center mb-8">
+          <div className="w-20 h-20 bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center mx-auto mb-6"><TrophyIcon className="w-10 h-10 text-indigo-600 dark:text-indigo-400" /></div>
+          <h2 className="text-3xl font-serif font-bold text-slate-800 dark:text-white mb-2">{score} of {questions.length} correct</h2>
+          <p className="text-slate-500 dark:text-slate-400">
+            {formatDuration(finishedMs)} · {finishedMs <= targetMs ? 'within' : 'over'} GRE pace ({formatDuration(targetMs)})
+          </p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700 mb-6">
+          {questions.map((q, i) => (
+            <div key={i} className="flex items-start gap-3 p-4">
+              {results[i] ? <CheckCircleIcon className="w-5 h-5 text-green-500 shrink-0 mt-0.5" /> : <XCircleIcon className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />}
+              <div className="min-w-0">
+                <div className="text-xs font-bold text-slate-400 uppercase">{TYPE_LABELS[q.type]}</div>
+                <div className="text-sm text-slate-700 dark:text-slate-200">{q.prompt}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+        {history.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase mb-2">Earlier Attempts</h3>
+            <div className="space-y-1">
+              {history.map((a, i) => (
+                <div key={i} className="flex justify-between text-sm text-slate-600 dark:text-slate-300 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+                  <span>{new Date(a.completedAt).toLocaleDateString()}</span>
+                  <span className="font-bold">{a.score}/{a.total} · {formatDuration(a.durationMs)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="text-center">
+          <button onClick={onExit} className="px-8 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700">Back to Reading</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) return <div>No questions available.</div>;
+
+  const sentenceStyle = (i: number) => {
+    if (!isSelectInPassage) return '';
+    const isSelected = selected.includes(i);
+    if (checked && question.correct.includes(i)) return 'bg-green-100 dark:bg-green-900/40';
+    if (checked && isSelected) return 'bg-red-100 dark:bg-red-900/40';
+    return isSelected ? 'bg-indigo-100 dark:bg-indigo-900/40' : 'cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700';
+  };
+
+  return (
+    <div className="pb-20">
+      <div className="flex justify-between items-center mb-4 text-sm font-medium text-slate-400">
+        <button onClick={onExit} className="flex items-center gap-1 hover:text-indigo-600"><ArrowUturnLeftIcon className="w-4 h-4" /> Reading</button>
+        <span>Question {index + 1} of {questions.length}</span>
+        <span className={`flex items-center gap-1 ${elapsedMs > targetMs ? 'text-amber-500' : ''}`}><ClockIcon className="w-4 h-4" />{formatDuration(elapsedMs)} / {formatDuration(targetMs)}</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 p-6 lg:max-h-[75vh] lg:overflow-y-auto">
+          <h2 className="text-xl font-serif font-bold text-slate-900 dark:text-white mb-4">{passage.title}</h2>
+          <div className="space-y-4 font-serif leading-relaxed text-slate-800 dark:text-slate-200">
+            {paragraphs.map((range, p) => (
+              <p key={p}>
+                {range.map(i => (
+                  <span key={i} onClick={() => isSelectInPassage && handleSelect(i)} className={`rounded transition-colors ${sentenceStyle(i)}`}>{sentences[i]} </span>
+                ))}
+              </p>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 p-6 self-start">
+          <div className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{TYPE_LABELS[question.type]}</div>
+          <p className="text-lg text-slate-800 dark:text-slate-100 mb-2">{question.prompt}</p>
+          {isSelectAll && <p className="text-xs text-slate-400 mb-4">Consider each choice separately and select all that apply.</p>}
+          {isSelectInPassage && !checked && <p className="text-sm text-indigo-500 mb-4">Click a sentence in the passage.</p>}
+
+          {!isSelectInPassage && (
+            <div className="space-y-2 mt-4">
+              {question.options.map((option, i) => {
+                const isSelected = selected.includes(i);
+                let style = isSelected ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300';
+                if (checked) {
+                  if (question.correct.includes(i)) style = 'border-green-500 bg-green-50 dark:bg-green-900/20';
+                  else if (isSelected) style = 'border-red-500 bg-red-50 dark:bg-red-900/20';
+                  else style = 'border-slate-200 dark:border-slate-700 opacity-60';
+                }
+                return (
+                  <button key={i} onClick={() => handleSelect(i)} disabled={checked} className={`w-full flex items-start gap-3 text-left px-4 py-3 rounded-xl border-2 text-sm text-slate-700 dark:text-slate-200 transition-colors ${style}`}>
+                    <span className={`shrink-0 w-6 h-6 flex items-center justify-center border-2 border-current text-xs font-bold ${isSelectAll ? 'rounded' : 'rounded-full'}`}>{OPTION_LETTERS[i]}</span>
+                    <span>{option}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {checked ? (
+            <>
+              <div className={`mt-6 p-4 rounded-xl text-sm ${results[index] ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200'}`}>
+                <div className="flex items-center gap-2 font-bold mb-1"><LightBulbIcon className="w-5 h-5" />{results[index] ? 'Correct' : 'Not quite'}</div>
+                {question.explanation}
+              </div>
+              <button onClick={handleContinue} className="w-full mt-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+                {index < questions.length - 1 ? 'Next Question' : 'See Results'}<ArrowRightIcon className="w-5 h-5" />
+              </button>
+            </>
+          ) : (
+            <button onClick={handleCheck} disabled={selected.length === 0} className="w-full mt-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl">Check Answer</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComprehensionSession;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { LibraryFilter } from '../types';
+import {
+  ColumnMapping, DeckExportFormat, DeckField, DeckTable, ImportedWord, DECK_FIELD_LABELS,
+  guessColumnMapping, parseDelimitedText, parseQuizletText, tableToImportedWords
+} from '../utils/deckFormats';
+import { readApkg } from '../utils/anki';
+import { ArrowsUpDownIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface DeckTransferPanelProps {
+  scopes: { id: LibraryFilter; label: string; count: number }[];
+  onImport: (words: ImportedWord[]) => void;
+  onExport: (format: DeckExportFormat, scope: LibraryFilter) => Promise<void>;
+}
+
+const EXPORT_FORMATS: { id: DeckExportFormat; label: string; description: string }[] = [
+  { id: 'anki', label: 'Anki (.apkg)', description: 'Notes with your mnemonics; cards keep their due dates and intervals.' },
+  { id: 'csv', label: 'CSV', description: 'Every field and the scheduling state, for spreadsheets or re-importing.' },
+  { id: 'tsv', label: 'TSV', description: 'The same columns, tab-separated.' },
+  { id: 'quizlet', label: 'Quizlet', description: 'Term and definition (with your mnemonic) to paste into Quizlet. No scheduling.' },
+];
+
+const TERM_SEPARATORS = [{ value: '\t', label: 'Tab' }, { value: ',', label: 'Comma' }, { value: ' - ', label: 'Dash' }];
+const ROW_SEPARATORS = [{ value: '\n', label: 'New line' }, { value: ';', label: 'Semicolon' }];
+const PREVIEW_ROWS = 3;
+
+// Import from other flashcard apps with a column-mapping step, and export the library (or part of it) to them
+const DeckTransferPanel: React.FC<DeckTransferPanelProps> = ({ scopes, onImport, onExport }) => {
+  const [table, setTable] = useState<DeckTable | null>(null);
+  const [sourceName, setSourceName] = useState('');
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [quizletText, setQuizletText] = useState('');
+  const [termSeparator, setTermSeparator] = useState('\t');
+  const [rowSeparator, setRowSeparator] = useState('\n');
+  const [exportScope, setExportScope] = useState<LibraryFilter>('all');
+  const [exportingFormat, setExportingFormat] = useState<DeckExportFormat | null>(null);
+
+  const openTable = (next: DeckTable, name: string) => {
+    if (next.rows.length === 0) {
+      setError('No cards found in that file.');
+      return;
+    }
+    setTable(next);
+    setSourceName(name);
+    setMapping(guessColumnMapping(next));
+    setError(null);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Picking the same file again should still fire
+    if (!file) return;
+    setIsReading(true);
+    setError(null);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      if (extension === 'apkg') openTable(await readApkg(new Uint8Array(await file.arrayBuffer())), file.name);
+      else openTable(parseDelimitedText(await file.text(), extension === 'tsv' ? '\t' : extension === 'csv' ? ',' : undefined), file.name);
+    } catch (e) {
+      console.error('Failed to read deck file', e);
+      setError(e instanceof Error ? e.message : 'Could not read that file.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const setColumnField = (column: number, field: DeckField | null) => {
+    // A field maps from one column at most; taking it elsewhere clears the old column
+    setMapping(prev => prev.map((f, i) => (i === column ? field : f === field ? null : f)));
+  };
+
+  const handleImport = () => {
+    if (!table) return;
+    onImport(tableToImportedWords(table, mapping));
+    setTable(null);
+    setQuizletText('');
+  };
+
+  const handleExport = async (format: DeckExportFormat) => {
+    setExportingFormat(format);
+    try {
+      await onExport(format, exportScope);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const importCount = table && mapping.includes('word') ? tableToImportedWords(table, mapping).length : 0;
+  const scopeCount = scopes.find(s => s.id === exportScope)?.count || 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-teal-50 dark:bg-teal-900/30 rounded-xl"><ArrowsUpDownIcon className="w-6 h-6 text-teal-600 dark:text-teal-400" /></div>
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 dark:text-white">Anki, Quizlet & Spreadsheets</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Bring decks in from other apps, or take your words and progress out.</p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 mb-4 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          <ExclamationTriangleIcon className="w-5 h-5 shrink-0" />{error}
+        </div>
+      )}
+
+      {table ? (
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-3">
+            <div className="font-bold text-slate-800 dark:text-white text-sm truncate">{sourceName} · {table.rows.length} rows</div>
+            <button onClick={() => setTable(null)} className="text-xs font-bold text-slate-400 hover:text-slate-700 dark:hover:text-white">Cancel</button>
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">Pick what each column holds. Words already in your library get any missing details filled in.</p>
+          <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-xl">
+            <table className="text-xs text-left">
+              <thead>
+                <tr className="bg-slate-50 dark:bg-slate-900/50">
+                  {table.headers.map((header, i) => (
+                    <th key={i} className="p-2 align-top min-w-[8rem]">
+                      <div className="font-bold text-slate-600 dark:text-slate-300 mb-1 truncate">{header}</div>
+                      <select value={mapping[i] || ''} onChange={(e) => setColumnField(i, (e.target.value || null) as DeckField | null)} className="w-full p-1 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-200">
+                        <option value="">Skip</option>
+                        {(Object.keys(DECK_FIELD_LABELS) as DeckField[]).map(f => <option key={f} value={f}>{DECK_FIELD_LABELS[f]}</option>)}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r} className="border-t border-slate-100 dark:border-slate-700">
+                    {row.map((cell, c) => <td key={c} className={`p-2 align-top max-w-[12rem] truncate ${mapping[c] ? 'text-slate-700 dark:text-slate-200' : 'text-slate-300 dark:text-slate-600'}`}>{cell}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <button onClick={handleImport} disabled={importCount === 0} className="w-full mt-4 py-3 bg-teal-600 hover:bg-teal-700 disabled:opacity-50 text-white font-bold rounded-xl transition-colors">
+            {mapping.includes('word') ? `Import ${importCount} Words` : 'Choose the Word column'}
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4 mb-8">
+          <div className="relative">
+            <input type="file" accept=".apkg,.csv,.tsv,.txt" onChange={handleFile} disabled={isReading} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer" />
+            <button className="w-full py-3 flex items-center justify-center gap-2 bg-white dark:bg-slate-800 border-2 border-dashed border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 font-bold rounded-xl">
+              {isReading && <ArrowPathIcon className="w-5 h-5 animate-spin" />}
+              {isReading ? 'Reading...' : 'Import .apkg, CSV or TSV File'}
+            </button>
+          </div>
+          <div>
+            <textarea value={quizletText} onChange={(e) => setQuizletText(e.target.value)} placeholder="...or paste a Quizlet export here" className="w-full h-24 p-3 rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-sm text-slate-700 dark:text-slate-200 focus:ring-2 focus:ring-teal-500 outline-none resize-none" />
+            {quizletText.trim() && (
+              <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-slate-500 dark:text-slate-400">
+                <span>Between term and definition</span>
+                <select value={termSeparator} onChange={(e) => setTermSeparator(e.target.value)} className="p-1 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800">
+                  {TERM_SEPARATORS.map(s => <option key={s.label} value={s.value}>{s.label}</option>)}
+                </select>
+                <span>between rows</span>
+                <select value={rowSeparator} onChange={(e) => setRowSeparator(e.target.value)} className="p-1 rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800">
+                  {ROW_SEPARATORS.map(s => <option key={s.label} value={s.value}>{s.label}</option>)}
+                </select>
+                <button onClick={() => openTable(parseQuizletText(quizletText, termSeparator, rowSeparator), 'Quizlet set')} className="ml-auto px-3 py-1.5 rounded-lg bg-teal-600 hover:bg-teal-700 text-white font-bold">Read Cards</button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="pt-6 border-t border-slate-100 dark:border-slate-700">
+        <div className="flex items-center justify-between gap-4 mb-3">
+          <div className="font-bold text-slate-800 dark:text-white">Export</div>
+          <select value={exportScope} onChange={(e) => setExportScope(e.target.value as LibraryFilter)} className="p-2 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-700 dark:text-slate-200">
+            {scopes.map(s => <option key={s.id} value={s.id}>{s.label} ({s.count})</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          {EXPORT_FORMATS.map(f => (
+            <button key={f.id} onClick={() => handleExport(f.id)} disabled={scopeCount === 0 || exportingFormat !== null} className="w-full text-left p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 hover:border-teal-400 disabled:opacity-50 transition-colors">
+              <div className="flex items-center gap-2 font-bold text-sm text-slate-800 dark:text-white">
+                {exportingFormat === f.id && <ArrowPathIcon className="w-4 h-4 animate-spin" />}{f.label}
+              </div>
+              <div className="text-xs text-slate-500 dark:text-slate-400">{f.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckTransferPanel;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { EnrichmentJob, EnrichmentJobStatus, WordData } from '../types';
+import { CloudArrowDownIcon, PauseIcon, PlayIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+
+interface EnrichmentQueuePanelProps {
+  jobs: EnrichmentJob[];
+  words: WordData[];
+  paused: boolean;
+  setCount: number;
+  onTogglePause: () => void;
+  onRetryFailed: () => void;
+  onClearFinished: () => void;
+  onEnrichSet: (setIndex: number) => void;
+}
+
+const STATUS_STYLES: Record<EnrichmentJobStatus, string> = {
+  queued: 'text-slate-700 dark:text-slate-200',
+  running: 'text-indigo-600 dark:text-indigo-400',
+  failed: 'text-red-600 dark:text-red-400',
+  done: 'text-green-600 dark:text-green-400',
+};
+
+const EnrichmentQueuePanel: React.FC<EnrichmentQueuePanelProps> = ({
+  jobs, words, paused, setCount, onTogglePause, onRetryFailed, onClearFinished, onEnrichSet
+}) => {
+  const [selectedSet, setSelectedSet] = useState(0);
+
+  const counts: Record<EnrichmentJobStatus, number> = { queued: 0, running: 0, failed: 0, done: 0 };
+  jobs.forEach(job => { counts[job.status]++; });
+  const wordNames = new Map(words.map(w => [w.id, w.word]));
+  const running = jobs.find(job => job.status === 'running');
+  const failed = jobs.filter(job => job.status === 'failed');
+  const progress = jobs.length > 0 ? (counts.done / jobs.length) * 100 : 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-indigo-50 dark:bg-indigo-900/30 rounded-xl"><CloudArrowDownIcon className="w-6 h-6 text-indigo-600 dark:text-indigo-400" /></div>
+        <div>
+          <h3 className="text-xl font-bold text-slate-800 dark:text-white">Enrichment Queue</h3>
+          <p className="text-sm text-slate-500 dark:text-slate-400">Words waiting for definitions and examples. The queue is saved and picks up where it left off.</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 mb-4 text-center">
+        {(Object.keys(counts) as EnrichmentJobStatus[]).map(status => (
+          <div key={status} className="bg-slate-50 dark:bg-slate-700/30 rounded-lg p-2">
+            <div className={`text-xl font-bold ${STATUS_STYLES[status]}`}>{counts[status]}</div>
+            <div className="text-xs text-slate-500 uppercase font-bold">{status}</div>
+          </div>
+        ))}
+      </div>
+
+      {jobs.length > 0 && (
+        <div className="mb-4">
+          <div className="h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${progress}%` }} />
+          </div>
+          <div className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+            {paused ? 'Paused.' : running ? `Looking up "${wordNames.get(running.wordId) || running.wordId}"...` : counts.queued > 0 ? 'Waiting for the next lookup...' : 'Idle.'}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button onClick={onTogglePause} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold text-sm transition-colors">
+          {paused ? <><PlayIcon className="w-4 h-4" />Resume</> : <><PauseIcon className="w-4 h-4" />Pause</>}
+        </button>
+        <button onClick={onRetryFailed} disabled={counts.failed === 0} className="flex items-center gap-2 px-4 py-2 rounded-xl border-2 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 font-bold text-sm disabled:opacity-40">
+          <ArrowPathIcon className="w-4 h-4" />Retry Failed
+        </button>
+        <button onClick={onClearFinished} disabled={counts.done === 0} className="px-4 py-2 rounded-xl border-2 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 font-bold text-sm disabled:opacity-40">
+          Clear Finished
+        </button>
+      </div>
+
+      {failed.length > 0 && (
+        <ul className="mb-4 max-h-40 overflow-y-auto divide-y divide-slate-100 dark:divide-slate-700 text-sm">
+          {failed.map(job => (
+            <li key={job.wordId} className="flex items-start gap-2 py-2">
+              <ExclamationTriangleIcon className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+              <div className="min-w-0">
+                <span className="font-bold text-slate-800 dark:text-white">{wordNames.get(job.wordId) || job.wordId}</span>
+                <span className="text-xs text-slate-400 ml-2">{job.attempts} attempts</span>
+                {job.lastError && <div className="text-xs text-slate-500 dark:text-slate-400 truncate" title={job.lastError}>{job.lastError}</div>}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {setCount > 0 && (
+        <div className="flex gap-2">
+          <select value={selectedSet} onChange={(e) => setSelectedSet(Number(e.target.value))} className="flex-1 px-3 py-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-900 dark:text-white font-medium">
+            {Array.from({ length: setCount }).map((_, idx) => <option key={idx} value={idx}>Set {idx + 1}</option>)}
+          </select>
+          <button onClick={() => onEnrichSet(selectedSet)} className="px-4 py-2 rounded-xl bg-slate-800 dark:bg-slate-600 hover:bg-slate-900 text-white font-bold text-sm whitespace-nowrap">Enrich Whole Set</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EnrichmentQueuePanel;
@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react';
-import { WordData } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { ReviewAnswer, ReviewGrade, SchedulerId, WordData } from '../types';
 import { validateSentence, generateWordImage } from '../services/geminiService';
+import { calculateNextReview, formatDueDate, REVIEW_GRADES } from '../utils/srs';
+import { nextLearningStep, formatLearningStep } from '../utils/studySession';
+import ReviewHistory from './ReviewHistory';
 import { 
   SpeakerWaveIcon, 
   LightBulbIcon, 
@@ -9,19 +12,32 @@ import {
   XCircleIcon,
   ArrowPathIcon,
   PhotoIcon,
-  SparklesIcon
+  SparklesIcon,
+  SignalSlashIcon
 } from '@heroicons/react/24/outline';
 
 interface FlashcardProps {
   wordData: WordData;
+  libraryWord?: WordData; // The library's copy, which answers are scheduled from; the queued copy can predate earlier answers
   onUpdateMnemonic: (id: string, mnemonic: string) => void;
   onUpdateImage: (id: string, base64: string) => void;
-  onNext: (mastered: boolean) => void;
+  onNext: (answer: ReviewAnswer) => void;
+  scheduler: SchedulerId;
+  keyboardShortcuts: boolean;
+  learningStep?: number; // Set while the card is in the session's learning steps
+  detailsPending?: boolean; // Offline: a word without details won't get them until the connection returns
 }
 
-const Flashcard: React.FC<FlashcardProps> = ({ wordData, onUpdateMnemonic, onUpdateImage, onNext }) => {
+const GRADE_BUTTONS: Record<ReviewGrade, { label: string; shortcut: string; className: string }> = {
+  again: { label: 'Again', shortcut: '1', className: 'border-2 border-red-500 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20' },
+  hard: { label: 'Hard', shortcut: '2', className: 'border-2 border-amber-500 text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20' },
+  good: { label: 'Good', shortcut: '3', className: 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-200 dark:shadow-indigo-900/30' },
+  easy: { label: 'Easy', shortcut: '4', className: 'bg-green-600 text-white hover:bg-green-700 shadow-lg shadow-green-200 dark:shadow-green-900/30' },
+};
+
+const Flashcard: React.FC<FlashcardProps> = ({ wordData, libraryWord = wordData, onUpdateMnemonic, onUpdateImage, onNext, scheduler, keyboardShortcuts, learningStep, detailsPending }) => {
   const [isFlipped, setIsFlipped] = useState(false);
-  const [activeTab, setActiveTab] = useState<'def' | 'context' | 'mnemonic' | 'practice'>('def');
+  const [activeTab, setActiveTab] = useState<'def' | 'context' | 'mnemonic' | 'practice' | 'history'>('def');
   const [userSentence, setUserSentence] = useState('');
   const [validationResult, setValidationResult] = useState<{ isCorrect: boolean; feedback: string } | null>(null);
   const [isValidating, setIsValidating] = useState(false);
@@ -31,6 +47,45 @@ const Flashcard: React.FC<FlashcardProps> = ({ wordData, onUpdateMnemonic, onUpd
   // Image Generation State
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
 
+  // Response latency is measured from the moment the answer is revealed
+  const flippedAt = useRef<number | null>(null);
+  const hasAnswered = useRef(false);
+
+  const handleFlip = () => {
+    if (isFlipped) return;
+    flippedAt.current = Date.now();
+    setIsFlipped(true);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (hasAnswered.current) return;
+    hasAnswered.current = true;
+    const responseMs = flippedAt.current ? Date.now() - flippedAt.current : 0;
+    setIsFlipped(false);
+    setValidationResult(null);
+    setUserSentence('');
+    setActiveTab('def');
+    setTimeout(() => onNext({ grade, responseMs }), 300); // Wait for flip back
+  };
+
+  // Space reveals the answer, 1-4 grade it. Ignored while typing in the practice/mnemonic boxes.
+  useEffect(() => {
+    if (!keyboardShortcuts) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'TEXTAREA' || target.tagName === 'INPUT') return;
+      if (!isFlipped && (e.key === ' ' || e.key === 'Enter')) {
+        e.preventDefault();
+        handleFlip();
+        return;
+      }
+      const grade = REVIEW_GRADES.find(g => GRADE_BUTTONS[g].shortcut === e.key);
+      if (isFlipped && grade) handleGrade(grade);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   // When word changes, reset key states (though component key in App usually handles this)
   useEffect(() => {
      setUserMnemonicInput(wordData.userMnemonic || '');
@@ -79,7 +134,7 @@ const Flashcard: React.FC<FlashcardProps> = ({ wordData, onUpdateMnemonic, onUpd
       >
         {/* FRONT OF CARD */}
         <div 
-          onClick={() => setIsFlipped(true)}
+          onClick={handleFlip}
           className="absolute w-full h-full backface-hidden bg-white dark:bg-slate-800 border-2 border-slate-200 dark:border-slate-700 rounded-3xl shadow-xl flex flex-col items-center justify-center cursor-pointer hover:shadow-2xl transition-shadow group overflow-hidden"
         >
           <span className="text-sm uppercase tracking-widest text-slate-500 mb-4 font-semibold">Tap to Reveal</span>
@@ -104,9 +159,14 @@ const Flashcard: React.FC<FlashcardProps> = ({ wordData, onUpdateMnemonic, onUpd
                  <SpeakerWaveIcon className="w-5 h-5" />
                </button>
              </div>
-             <span className="text-xs font-mono text-slate-400 bg-slate-200 dark:bg-slate-800 px-2 py-1 rounded truncate max-w-[80px] md:max-w-[120px] ml-2 shrink-0">
-               {wordData.etymology ? 'Derived from ' + wordData.etymology.split(' ').slice(0, 3).join(' ') + '...' : 'Etymology'}
-             </span>
+             <div className="flex flex-col items-end gap-1 ml-2 shrink-0">
+               <span className="text-xs font-mono text-slate-400 bg-slate-200 dark:bg-slate-800 px-2 py-1 rounded truncate max-w-[80px] md:max-w-[120px]">
+                 {wordData.etymology ? 'Derived from ' + wordData.etymology.split(' ').slice(0, 3).join(' ') + '...' : 'Etymology'}
+               </span>
+               <span className="text-[10px] font-bold uppercase tracking-wide text-slate-400">
+                 {libraryWord.leitnerBox === 0 ? 'New word' : `Box ${libraryWord.leitnerBox} · due ${formatDueDate(libraryWord.nextReviewDate)}`}
+               </span>
+             </div>
           </div>
 
           {/* Navigation - Fixed */}
@@ -135,13 +195,25 @@ const Flashcard: React.FC<FlashcardProps> = ({ wordData, onUpdateMnemonic, onUpd
             >
               Practice
             </button>
+            <button 
+              onClick={() => setActiveTab('history')}
+              className={`flex-1 py-3 px-2 text-xs md:text-sm font-medium transition-colors whitespace-nowrap ${activeTab === 'history' ? 'text-indigo-600 border-b-2 border-indigo-600 bg-indigo-50/50' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              History
+            </button>
           </div>
 
           {/* Content Area - SCROLLABLE INTERNAL */}
           <div className="flex-1 overflow-y-auto p-4 md:p-6 scroll-smooth">
             {activeTab === 'def' && (
               <div className="space-y-4 md:space-y-6">
-                {wordData.definitions.length === 0 ? (
+                {wordData.definitions.length === 0 && detailsPending ? (
+                    <div className="text-center text-slate-500 mt-8 flex flex-col items-center">
+                        <SignalSlashIcon className="w-8 h-8 mb-2 opacity-50"/>
+                        <p className="font-bold">Details pending</p>
+                        <p className="text-sm">This word isn't in the offline dictionary. Its details load once you're back online; grade it from memory for now.</p>
+                    </div>
+                ) : wordData.definitions.length === 0 ? (
                     <div className="text-center text-slate-500 italic mt-8 flex flex-col items-center">
                         <ArrowPathIcon className="w-8 h-8 animate-spin mb-2 opacity-50"/>
                         <p>Fetching definitions...</p>
@@ -291,36 +363,40 @@ const Flashcard: React.FC<FlashcardProps> = ({ wordData, onUpdateMnemonic, onUpd
               </div>
             )}
             
+            {activeTab === 'history' && (
+              <ReviewHistory wordId={wordData.id} lapses={libraryWord.lapses || 0} />
+            )}
+            
             {/* Bottom Padding spacer to ensure content isn't hidden behind footer */}
             <div className="h-12"></div>
           </div>
 
           {/* Action Footer - Fixed */}
-          <div className="p-4 bg-slate-50 dark:bg-slate-900 border-t border-slate-200 dark:border-slate-700 flex gap-4 shrink-0 z-20">
-            <button 
-              onClick={() => {
-                setIsFlipped(false);
-                setValidationResult(null);
-                setUserSentence('');
-                setActiveTab('def');
-                setTimeout(() => onNext(false), 300); // Wait for flip back
-              }}
-              className="flex-1 py-3 rounded-xl border-2 border-amber-500 text-amber-600 dark:text-amber-400 font-bold hover:bg-amber-50 dark:hover:bg-amber-900/20 transition-colors"
-            >
-              Review Later
-            </button>
-            <button 
-              onClick={() => {
-                setIsFlipped(false);
-                setValidationResult(null);
-                setUserSentence('');
-                setActiveTab('def');
-                setTimeout(() => onNext(true), 300);
-              }}
-              className="flex-1 py-3 rounded-xl bg-indigo-600 text-white font-bold hover:bg-indigo-700 shadow-lg shadow-indigo-200 dark:shadow-indigo-900/30 transition-all transform active:scale-95"
-            >
-              Mastered It!
-            </button>
+          <div className="p-4 bg-slate-50 dark:bg-slate-900 border-t border-slate-200 dark:border-slate-700 flex gap-2 md:gap-3 shrink-0 z-20">
+            {REVIEW_GRADES.map(grade => {
+              // Where this answer would send the word. During learning steps it only decides when the
+              // card comes back; once past the last step it keeps the schedule it already has.
+              const preview = calculateNextReview(libraryWord, grade, scheduler);
+              const nextStep = learningStep === undefined ? null : nextLearningStep(learningStep, grade, false);
+              const button = GRADE_BUTTONS[grade];
+              return (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`flex-1 py-2 rounded-xl font-bold transition-all transform active:scale-95 flex flex-col items-center ${button.className}`}
+                >
+                  <span className="text-sm md:text-base">
+                    {button.label}
+                    {keyboardShortcuts && <kbd className="hidden md:inline ml-1.5 text-[10px] font-mono opacity-60">{button.shortcut}</kbd>}
+                  </span>
+                  <span className="text-[10px] font-medium opacity-75">
+                    {learningStep === undefined
+                      ? (preview.mastered ? 'Mastered' : formatDueDate(preview.nextReviewDate))
+                      : nextStep !== null ? formatLearningStep(nextStep) : formatDueDate(libraryWord.nextReviewDate)}
+                  </span>
+                </button>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface GoalRingProps {
+  progress: number;
+  goal: number;
+}
+
+const RADIUS = 30;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Today's answers against the daily goal; the ring closes when the goal is met
+const GoalRing: React.FC<GoalRingProps> = ({ progress, goal }) => {
+  const fraction = goal > 0 ? Math.min(1, progress / goal) : 1;
+  return (
+    <div className="relative w-20 h-20 shrink-0" title={`${progress} of ${goal} cards today`}>
+      <svg viewBox="0 0 72 72" className="w-full h-full -rotate-90">
+        <circle cx={36} cy={36} r={RADIUS} fill="none" strokeWidth={6} className="stroke-white/25" />
+        <circle cx={36} cy={36} r={RADIUS} fill="none" strokeWidth={6} strokeLinecap="round" className="stroke-white transition-all duration-500" strokeDasharray={CIRCUMFERENCE} strokeDashoffset={CIRCUMFERENCE * (1 - fraction)} />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center leading-none">
+        <span className="text-lg font-bold">{fraction >= 1 ? '✓' : progress}</span>
+        <span className="text-[10px] opacity-75">of {goal}</span>
+      </div>
+    </div>
+  );
+};
+
+export default GoalRing;
@@ -0,0 +1,258 @@
+import React, { useState, useMemo } from 'react';
+import { WordCluster, WordClusterSource, WordData } from '../types';
+import { buildSynonymClusters, buildOddOneOutRound, buildSortRound, OddOneOutRound, SortRound } from '../utils/clusters';
+import { PlayCircleIcon, SparklesIcon, ArrowPathIcon, CheckCircleIcon, XCircleIcon, ArrowUturnLeftIcon, Squares2X2Icon } from '@heroicons/react/24/outline';
+
+interface GroupsViewProps {
+  words: WordData[];
+  aiGroups: WordCluster[];
+  isGrouping: boolean;
+  onGroupWithAI: () => void;
+  onStudyCluster: (cluster: WordCluster) => void;
+}
+
+type GroupsMode = 'list' | 'odd-one-out' | 'sort';
+
+const SOURCE_LABELS: Record<WordClusterSource, string> = {
+  synonyms: 'From Synonyms',
+  ai: 'AI Groups',
+};
+
+// Colours for the groups in a sort round, spelled out so Tailwind keeps them
+const SORT_COLORS = [
+  'border-indigo-400 bg-indigo-50 text-indigo-800 dark:bg-indigo-900/20 dark:text-indigo-200',
+  'border-amber-400 bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-200',
+  'border-emerald-400 bg-emerald-50 text-emerald-800 dark:bg-emerald-900/20 dark:text-emerald-200',
+];
+
+// Exercises here are practice only; they don't feed the scheduler
+const GroupsView: React.FC<GroupsViewProps> = ({ words, aiGroups, isGrouping, onGroupWithAI, onStudyCluster }) => {
+  const [source, setSource] = useState<WordClusterSource>('synonyms');
+  const [mode, setMode] = useState<GroupsMode>('list');
+  const [oddRound, setOddRound] = useState<OddOneOutRound | null>(null);
+  const [oddPick, setOddPick] = useState<number | null>(null);
+  const [sortRound, setSortRound] = useState<SortRound | null>(null);
+  const [sortPicks, setSortPicks] = useState<Record<string, string>>({});
+  const [sortChecked, setSortChecked] = useState(false);
+  const [score, setScore] = useState({ correct: 0, total: 0 });
+
+  const synonymClusters = useMemo(() => buildSynonymClusters(words), [words]);
+  // Stored AI groups can outlive words deleted since; keep only what's still in the library
+  const currentAiGroups = useMemo(() => {
+    const ids = new Set(words.map(w => w.id));
+    return aiGroups
+      .map(g => ({ ...g, wordIds: g.wordIds.filter(id => ids.has(id)) }))
+      .filter(g => g.wordIds.length >= 2);
+  }, [aiGroups, words]);
+  const clusters: WordCluster[] = source === 'ai' ? currentAiGroups : synonymClusters;
+  const wordsById = useMemo(() => new Map(words.map(w => [w.id, w])), [words]);
+
+  const nextOddRound = () => {
+    setOddRound(buildOddOneOutRound(clusters, words));
+    setOddPick(null);
+  };
+
+  const nextSortRound = () => {
+    setSortRound(buildSortRound(clusters, words));
+    setSortPicks({});
+    setSortChecked(false);
+  };
+
+  const startExercise = (next: GroupsMode) => {
+    setScore({ correct: 0, total: 0 });
+    setMode(next);
+    if (next === 'odd-one-out') nextOddRound();
+    if (next === 'sort') nextSortRound();
+  };
+
+  const handleOddPick = (index: number) => {
+    if (!oddRound || oddPick !== null) return;
+    setOddPick(index);
+    setScore(prev => ({ correct: prev.correct + (index === oddRound.oddIndex ? 1 : 0), total: prev.total + 1 }));
+  };
+
+  const handleSortCheck = () => {
+    if (!sortRound || sortChecked) return;
+    const correct = sortRound.words.filter(w => sortPicks[w.id] === sortRound.answers[w.id]).length;
+    setSortChecked(true);
+    setScore(prev => ({ correct: prev.correct + correct, total: prev.total + sortRound.words.length }));
+  };
+
+  const header = (title: string) => (
+    <div className="flex items-center justify-between mb-6">
+      <div>
+        <h2 className="text-2xl font-serif font-bold text-slate-800 dark:text-white">{title}</h2>
+        {score.total > 0 && <p className="text-sm text-slate-500 dark:text-slate-400">{score.correct} of {score.total} correct</p>}
+      </div>
+      <button onClick={() => setMode('list')} className="flex items-center gap-1 text-sm font-bold text-slate-500 hover:text-indigo-600">
+        <ArrowUturnLeftIcon className="w-4 h-4" /> Groups
+      </button>
+    </div>
+  );
+
+  if (mode === 'odd-one-out') {
+    return (
+      <div className="max-w-2xl mx-auto pb-20 animate-fade-in">
+        {header('Odd One Out')}
+        {!oddRound ? (
+          <p className="text-slate-500 dark:text-slate-400">Not enough groups for this exercise yet. It needs one group of three or more words and a second group to borrow from.</p>
+        ) : (
+          <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-700 p-8">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-6">Three of these share a meaning. Which one doesn't belong?</p>
+            <div className="grid grid-cols-2 gap-3">
+              {oddRound.options.map((word, i) => {
+                let style = 'border-slate-200 dark:border-slate-700 hover:border-indigo-300';
+                if (oddPick !== null) {
+                  if (i === oddRound.oddIndex) style = 'border-green-500 bg-green-50 dark:bg-green-900/20';
+                  else if (i === oddPick) style = 'border-red-500 bg-red-50 dark:bg-red-900/20';
+                  else style = 'border-slate-200 dark:border-slate-700 opacity-60';
+                }
+                return (
+                  <button key={word.id} onClick={() => handleOddPick(i)} disabled={oddPick !== null} className={`py-4 px-3 rounded-xl border-2 text-lg font-serif font-bold text-slate-700 dark:text-slate-200 transition-colors ${style}`}>
+                    {word.word}
+                  </button>
+                );
+              })}
+            </div>
+            {oddPick !== null && (
+              <div className="mt-6 animate-fade-in">
+                <div className={`p-4 rounded-xl text-sm mb-4 ${oddPick === oddRound.oddIndex ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200'}`}>
+                  The others all mean <span className="font-bold">"{oddRound.cluster.label}"</span>.
+                  {oddRound.options[oddRound.oddIndex].definitions[0] && <> <span className="font-bold">{oddRound.options[oddRound.oddIndex].word}</span>: {oddRound.options[oddRound.oddIndex].definitions[0].definition}</>}
+                </div>
+                <button onClick={nextOddRound} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl">Next</button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if (mode === 'sort') {
+    return (
+      <div className="max-w-3xl mx-auto pb-20 animate-fade-in">
+        {header('Sort into Groups')}
+        {!sortRound ? (
+          <p className="text-slate-500 dark:text-slate-400">Not enough groups for this exercise yet. It needs at least two groups.</p>
+        ) : (
+          <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-700 p-8">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Put each word in the group it belongs to</p>
+            <div className="flex flex-wrap gap-2 mb-6">
+              {sortRound.clusters.map((cluster, c) => (
+                <span key={cluster.id} className={`px-3 py-1 rounded-full border-2 text-sm font-bold ${SORT_COLORS[c]}`}>{cluster.label}</span>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {sortRound.words.map(word => {
+                const isRight = sortPicks[word.id] === sortRound.answers[word.id];
+                return (
+                  <div key={word.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-900/50">
+                    <div className="flex items-center gap-2 sm:w-40 shrink-0">
+                      {sortChecked && (isRight ? <CheckCircleIcon className="w-5 h-5 text-green-500" /> : <XCircleIcon className="w-5 h-5 text-red-500" />)}
+                      <span className="font-serif font-bold text-slate-800 dark:text-slate-100">{word.word}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {sortRound.clusters.map((cluster, c) => {
+                        const isPicked = sortPicks[word.id] === cluster.id;
+                        const isAnswer = sortRound.answers[word.id] === cluster.id;
+                        let style = isPicked ? SORT_COLORS[c] : 'border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-slate-400';
+                        if (sortChecked && !isPicked) style = isAnswer ? `${SORT_COLORS[c]} opacity-60` : 'border-slate-200 dark:border-slate-700 text-slate-400 opacity-40';
+                        return (
+                          <button
+                            key={cluster.id}
+                            onClick={() => !sortChecked && setSortPicks(prev => ({ ...prev, [word.id]: cluster.id }))}
+                            disabled={sortChecked}
+                            className={`px-3 py-1 rounded-lg border-2 text-xs font-bold transition-colors ${style}`}
+                          >
+                            {cluster.label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {sortChecked
+              ? <button onClick={nextSortRound} className="w-full mt-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl">Next Round</button>
+              : <button onClick={handleSortCheck} disabled={sortRound.words.some(w => !sortPicks[w.id])} className="w-full mt-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl">Check</button>}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-serif font-bold text-slate-800 dark:text-white">Word Groups</h2>
+          <p className="text-slate-500 dark:text-slate-400">Words with overlapping meanings, learned side by side.</p>
+        </div>
+        <div className="flex bg-slate-100 dark:bg-slate-800 rounded-xl p-1 self-start">
+          {(['synonyms', 'ai'] as WordClusterSource[]).map(s => (
+            <button key={s} onClick={() => setSource(s)} className={`px-4 py-2 rounded-lg text-sm font-bold transition-colors ${source === s ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm' : 'text-slate-500 dark:text-slate-400'}`}>
+              {SOURCE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <button onClick={() => startExercise('odd-one-out')} disabled={clusters.length < 2} className="p-5 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-left hover:shadow-md disabled:opacity-50 transition-all">
+          <div className="font-bold text-slate-800 dark:text-white">Odd One Out</div>
+          <div className="text-sm text-slate-500 dark:text-slate-400">Spot the word that doesn't share the meaning.</div>
+        </button>
+        <button onClick={() => startExercise('sort')} disabled={clusters.length < 2} className="p-5 rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-left hover:shadow-md disabled:opacity-50 transition-all">
+          <div className="font-bold text-slate-800 dark:text-white">Sort into Groups</div>
+          <div className="text-sm text-slate-500 dark:text-slate-400">Match mixed-up words to their groups.</div>
+        </button>
+        <button onClick={onGroupWithAI} disabled={isGrouping} className="p-5 rounded-2xl border border-indigo-200 dark:border-indigo-800/50 bg-indigo-50 dark:bg-indigo-900/10 text-left hover:shadow-md disabled:opacity-50 transition-all">
+          <div className="flex items-center gap-2 font-bold text-indigo-900 dark:text-indigo-200">
+            {isGrouping ? <ArrowPathIcon className="w-5 h-5 animate-spin" /> : <SparklesIcon className="w-5 h-5" />}
+            {isGrouping ? 'Grouping...' : aiGroups.length > 0 ? 'Regroup with AI' : 'Group with AI'}
+          </div>
+          <div className="text-sm text-indigo-700/70 dark:text-indigo-300/70">Catches groups your synonym lists miss.</div>
+        </button>
+      </div>
+
+      {clusters.length === 0 ? (
+        <div className="text-center py-16 bg-white dark:bg-slate-800 rounded-2xl border border-dashed border-slate-300 dark:border-slate-700">
+          <Squares2X2Icon className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+          <p className="text-slate-500 dark:text-slate-400">
+            {source === 'ai'
+              ? 'No AI groups yet. Use "Group with AI" to sort the words you\'re learning.'
+              : 'Groups appear once studied words share synonyms. Study a few sets to fill this in.'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {clusters.map(cluster => {
+            const members = cluster.wordIds.map(id => wordsById.get(id)).filter((w): w is WordData => !!w);
+            return (
+              <div key={cluster.id} className="bg-white dark:bg-slate-800 p-5 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div>
+                    <h3 className="text-lg font-bold text-slate-800 dark:text-white capitalize">{cluster.label}</h3>
+                    <span className="text-xs text-slate-400">{members.length} words · {members.filter(w => w.mastered).length} mastered</span>
+                  </div>
+                  <button onClick={() => onStudyCluster(cluster)} className="flex items-center gap-1 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-lg shrink-0">
+                    <PlayCircleIcon className="w-4 h-4" /> Study
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-1.5">
+                  {members.map(w => (
+                    <span key={w.id} className={`px-2 py-0.5 rounded-md text-sm font-serif ${w.mastered ? 'bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-300' : 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-200'}`}>{w.word}</span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GroupsView;
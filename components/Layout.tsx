@@ -1,14 +1,21 @@
 import React from 'react';
 import { ViewState } from '../types';
+import { SaveStatus } from '../utils/db';
+import { ConnectivityStatus } from '../services/connectivity';
 import { 
   Cog6ToothIcon, 
   SunIcon, 
   MoonIcon, 
   RectangleStackIcon, 
   ArchiveBoxIcon, 
+  Squares2X2Icon,
   PlayCircleIcon, 
   NewspaperIcon, 
-  CircleStackIcon 
+  ChartBarIcon,
+  CircleStackIcon,
+  ExclamationTriangleIcon,
+  ArrowPathIcon,
+  SignalSlashIcon
 } from '@heroicons/react/24/outline';
 
 interface LayoutProps {
@@ -16,16 +23,23 @@ interface LayoutProps {
   currentView: ViewState;
   onChangeView: (view: ViewState) => void;
   streak: number;
+  streakFreezes: number;
   isDarkMode: boolean;
   onToggleDarkMode: () => void;
+  saveStatus: SaveStatus;
+  onRetrySave: () => void;
+  onPruneImages: () => void;
+  connectivity: ConnectivityStatus;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children, currentView, onChangeView, streak, isDarkMode, onToggleDarkMode }) => {
+const Layout: React.FC<LayoutProps> = ({ children, currentView, onChangeView, streak, streakFreezes, isDarkMode, onToggleDarkMode, saveStatus, onRetrySave, onPruneImages, connectivity }) => {
   const navItems = [
     { view: ViewState.DASHBOARD, label: 'Sets', icon: RectangleStackIcon },
     { view: ViewState.LIBRARY, label: 'Library', icon: ArchiveBoxIcon },
+    { view: ViewState.GROUPS, label: 'Groups', icon: Squares2X2Icon },
     { view: ViewState.STUDY, label: 'Study', icon: PlayCircleIcon },
     { view: ViewState.READING, label: 'Read', icon: NewspaperIcon },
+    { view: ViewState.STATS, label: 'Stats', icon: ChartBarIcon },
     { view: ViewState.SETTINGS, label: 'Data', icon: CircleStackIcon },
   ];
 
@@ -53,6 +67,12 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onChangeView, st
               >
                 Library
               </button>
+              <button 
+                onClick={() => onChangeView(ViewState.GROUPS)}
+                className={`text-sm font-medium transition-colors ${currentView === ViewState.GROUPS ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+              >
+                Groups
+              </button>
               <button 
                 onClick={() => onChangeView(ViewState.STUDY)}
                 className={`text-sm font-medium transition-colors ${currentView === ViewState.STUDY ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
@@ -65,11 +85,27 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onChangeView, st
               >
                 Reading
               </button>
+              <button 
+                onClick={() => onChangeView(ViewState.STATS)}
+                className={`text-sm font-medium transition-colors ${currentView === ViewState.STATS ? 'text-indigo-600 dark:text-indigo-400' : 'text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+              >
+                Stats
+              </button>
             </div>
 
             <div className="flex items-center gap-4">
-              <div className="flex items-center gap-1.5 px-3 py-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded-full border border-amber-200 dark:border-amber-800 text-sm font-bold">
-                🔥 {streak}
+              {!connectivity.online && (
+                <span className="flex items-center gap-1 px-2 py-1 rounded-full bg-slate-100 dark:bg-slate-800 text-xs font-bold text-slate-500 dark:text-slate-400" title="Studying, quizzes and the library work offline. AI features wait for the connection.">
+                  <SignalSlashIcon className="w-4 h-4" /> Offline{connectivity.waiting > 0 && ` · ${connectivity.waiting} waiting`}
+                </span>
+              )}
+              {saveStatus === 'saving' && (
+                <span className="hidden sm:flex items-center gap-1 text-xs font-medium text-slate-400">
+                  <ArrowPathIcon className="w-4 h-4 animate-spin" /> Saving
+                </span>
+              )}
+              <div className="flex items-center gap-1.5 px-3 py-1 bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 rounded-full border border-amber-200 dark:border-amber-800 text-sm font-bold" title={streakFreezes > 0 ? `${streakFreezes} streak freeze${streakFreezes === 1 ? '' : 's'} saved for missed days` : undefined}>
+                🔥 {streak}{streakFreezes > 0 && <span className="text-sky-600 dark:text-sky-400">🧊{streakFreezes}</span>}
               </div>
               
               <button
@@ -90,6 +126,35 @@ const Layout: React.FC<LayoutProps> = ({ children, currentView, onChangeView, st
         </div>
       </nav>
 
+      {/* Persistence Warning */}
+      {(saveStatus === 'unsaved' || saveStatus === 'quota') && (
+        <div className="bg-red-50 dark:bg-red-900/30 border-b border-red-200 dark:border-red-800">
+          <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div className="flex items-start gap-3 text-red-800 dark:text-red-200">
+              <ExclamationTriangleIcon className="w-6 h-6 shrink-0" />
+              <div>
+                <p className="font-bold text-sm">{saveStatus === 'quota' ? 'Storage full' : 'Unsaved changes'}</p>
+                <p className="text-xs opacity-80">
+                  {saveStatus === 'quota'
+                    ? 'Your browser ran out of space, so recent progress is only kept until you close this tab. Removing generated images usually frees enough room.'
+                    : 'Your latest progress could not be written to this device yet.'}
+                </p>
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              {saveStatus === 'quota' && (
+                <button onClick={onPruneImages} className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-700 text-white text-xs font-bold transition-colors">
+                  Remove Generated Images
+                </button>
+              )}
+              <button onClick={onRetrySave} className="px-3 py-1.5 rounded-lg border border-red-300 dark:border-red-700 text-red-700 dark:text-red-200 text-xs font-bold hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">
+                Retry Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="flex-1 max-w-5xl w-full mx-auto px-4 sm:px-6 lg:px-8 py-8 mb-20 md:mb-0">
         {children}
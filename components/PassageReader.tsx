@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import { WordData } from '../types';
+import { buildWordMatcher, tokenizePassage } from '../utils/highlight';
+
+interface PassageReaderProps {
+  text: string;
+  words: WordData[];
+  onOpenWord: (word: WordData) => void;
+  onAddWord: (word: string) => void;
+}
+
+// Library words are highlighted by progress; unknown hard words get a dotted underline and add on tap
+const PassageReader: React.FC<PassageReaderProps> = ({ text, words, onOpenWord, onAddWord }) => {
+  const matcher = useMemo(() => buildWordMatcher(words), [words]);
+  const wordsById = useMemo(() => new Map(words.map(w => [w.id, w])), [words]);
+  const paragraphs = useMemo(
+    () => text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => tokenizePassage(p, matcher)),
+    [text, matcher]
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4 text-xs text-slate-500 dark:text-slate-400 mb-4">
+        <span><span className="px-1 rounded bg-indigo-100 dark:bg-indigo-900/40 text-indigo-800 dark:text-indigo-200 font-bold">word</span> in your library</span>
+        <span><span className="px-1 rounded bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 font-bold">word</span> mastered</span>
+        <span><span className="border-b-2 border-dotted border-slate-400">word</span> tap to add</span>
+      </div>
+      <div className="space-y-4 text-lg font-serif leading-relaxed text-slate-800 dark:text-slate-200">
+        {paragraphs.map((tokens, p) => (
+          <p key={p}>
+            {tokens.map((token, i) => {
+              const word = token.wordId ? wordsById.get(token.wordId) : undefined;
+              if (word) {
+                return (
+                  <button key={i} onClick={() => onOpenWord(word)} className={`px-0.5 rounded font-bold transition-colors ${word.mastered ? 'bg-green-100 dark:bg-green-900/40 text-green-800 dark:text-green-200 hover:bg-green-200' : 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-800 dark:text-indigo-200 hover:bg-indigo-200'}`}>
+                    {token.text}
+                  </button>
+                );
+              }
+              if (token.isCandidate) {
+                return (
+                  <button key={i} onClick={() => onAddWord(token.text.toLowerCase())} title="Add to library" className="border-b-2 border-dotted border-slate-400 hover:border-indigo-500 hover:text-indigo-700 dark:hover:text-indigo-300">
+                    {token.text}
+                  </button>
+                );
+              }
+              return <React.Fragment key={i}>{token.text}</React.Fragment>;
+            })}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PassageReader;
@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { PracticeBlank, PracticeItem, ReviewGrade, WordReview } from '../types';
+import { CheckCircleIcon, XCircleIcon, TrophyIcon, ArrowRightIcon, ArrowPathIcon, LightBulbIcon } from '@heroicons/react/24/outline';
+
+interface PracticeSessionProps {
+  items: PracticeItem[] | null; // Null while the items are being generated
+  onAnswer: (reviews: WordReview[]) => void;
+  onExit: () => void;
+}
+
+interface PracticeResult {
+  item: PracticeItem;
+  selections: number[][];
+  blankCorrect: boolean[];
+}
+
+const BLANK_LABELS = ['i', 'ii', 'iii'];
+
+const TYPE_LABELS: Record<PracticeItem['type'], string> = {
+  'text-completion': 'Text Completion',
+  'sentence-equivalence': 'Sentence Equivalence',
+};
+
+// Spelled out so the class names survive Tailwind's content scan
+const BLANK_COLUMNS: Record<number, string> = { 1: '', 2: 'md:grid-cols-2', 3: 'md:grid-cols-3' };
+
+const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every(i => b.includes(i));
+
+// A blank answered right counts as Good for the words it tests. Getting one of the two
+// Sentence Equivalence answers is partial credit (Hard); anything else is a miss.
+const gradeBlank = (blank: PracticeBlank, selected: number[]): ReviewGrade => {
+  if (sameSet(blank.correct, selected)) return 'good';
+  return selected.some(i => blank.correct.includes(i)) ? 'hard' : 'again';
+};
+
+const PracticeSession: React.FC<PracticeSessionProps> = ({ items, onAnswer, onExit }) => {
+  const [index, setIndex] = useState(0);
+  const [selections, setSelections] = useState<number[][]>([]);
+  const [result, setResult] = useState<PracticeResult | null>(null);
+  const [results, setResults] = useState<PracticeResult[]>([]);
+  const [isFinished, setIsFinished] = useState(false);
+
+  const shownAt = useRef(Date.now());
+  useEffect(() => { shownAt.current = Date.now(); }, [index, items]);
+
+  if (!items) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[60vh]">
+        <ArrowPathIcon className="w-16 h-16 text-indigo-500 animate-spin mb-6" />
+        <h2 className="text-2xl font-bold text-slate-800 dark:text-white">Writing Practice Questions...</h2>
+      </div>
+    );
+  }
+
+  const item = items[index];
+  const isEquivalence = item?.type === 'sentence-equivalence';
+  const picksPerBlank = isEquivalence ? 2 : 1;
+
+  const handleSelect = (blankIndex: number, optionIndex: number) => {
+    if (result) return;
+    setSelections(prev => {
+      const next = [...prev];
+      const current = next[blankIndex] || [];
+      if (current.includes(optionIndex)) next[blankIndex] = current.filter(i => i !== optionIndex);
+      else if (picksPerBlank === 1) next[blankIndex] = [optionIndex];
+      else if (current.length < picksPerBlank) next[blankIndex] = [...current, optionIndex];
+      return next;
+    });
+  };
+
+  const canCheck = item && item.blanks.every((_, b) => (selections[b] || []).length === picksPerBlank);
+
+  const handleCheck = () => {
+    if (!canCheck || result) return;
+    const responseMs = Date.now() - shownAt.current;
+    const checked: PracticeResult = {
+      item,
+      selections,
+      blankCorrect: item.blanks.map((blank, b) => sameSet(blank.correct, selections[b]))
+    };
+    setResult(checked);
+    setResults(prev => [...prev, checked]);
+    onAnswer(item.blanks.flatMap((blank, b) => {
+      const grade = gradeBlank(blank, selections[b]);
+      return blank.wordIds.map(wordId => ({ wordId, answer: { grade, responseMs } }));
+    }));
+  };
+
+  const handleContinue = () => {
+    if (index < items.length - 1) {
+      setIndex(prev => prev + 1);
+      setSelections([]);
+      setResult(null);
+    } else {
+      setIsFinished(true);
+    }
+  };
+
+  if (isFinished) {
+    const correctCount = results.filter(r => r.blankCorrect.every(Boolean)).length;
+    return (
+      <div className="max-w-2xl mx-auto pb-20 animate-fade-in">
+        <div className="text-center mb-8">
+          <div className="w-20 h-20 bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center mx-auto mb-6"><TrophyIcon className="w-10 h-10 text-indigo-600 dark:text-indigo-400" /></div>
+          <h2 className="text-3xl font-serif font-bold text-slate-800 dark:text-white mb-2">Practice Complete</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-lg">{correctCount} of {results.length} questions fully correct</p>
+          <p className="text-xs text-slate-400 mt-1">As on the GRE, a question only counts if every blank is right.</p>
+        </div>
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700 mb-6">
+          {results.map((r, i) => {
+            const isCorrect = r.blankCorrect.every(Boolean);
+            return (
+              <div key={i} className="flex items-start gap-3 p-4">
+                {isCorrect ? <CheckCircleIcon className="w-5 h-5 text-green-500 shrink-0 mt-0.5" /> : <XCircleIcon className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />}
+                <div className="min-w-0">
+                  <div className="text-xs font-bold text-slate-400 uppercase">{TYPE_LABELS[r.item.type]}</div>
+                  <div className="text-sm text-slate-700 dark:text-slate-200">
+                    Answer: {r.item.blanks.map(b => b.correct.map(c => b.options[c]).join(' / ')).join(' · ')}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="text-center">
+          <button onClick={onExit} className="px-8 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700">Back to Dashboard</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!item) return <div>No practice questions available.</div>;
+
+  // Passage with [n] markers swapped for the chosen answers (or a roman numeral while empty)
+  const renderPassage = () => item.passage.split(/(\[\d\])/).map((part, i) => {
+    const marker = part.match(/^\[(\d)\]$/);
+    if (!marker) return <span key={i}>{part}</span>;
+    const b = Number(marker[1]) - 1;
+    const chosen = (selections[b] || []).map(o => item.blanks[b].options[o]);
+    return (
+      <span key={i} className="inline-block min-w-[6rem] mx-1 px-2 border-b-2 border-indigo-400 text-indigo-700 dark:text-indigo-300 font-bold text-center">
+        {chosen.length > 0 ? chosen.join(' / ') : isEquivalence ? '______' : `(${BLANK_LABELS[b]})`}
+      </span>
+    );
+  });
+
+  return (
+    <div className="max-w-3xl mx-auto pb-20">
+      <div className="w-full flex justify-between items-center mb-4 text-sm font-medium text-slate-400">
+        <span>Question {index + 1} of {items.length}</span>
+        <span>{TYPE_LABELS[item.type]}</span>
+      </div>
+      <div className="w-full h-1 bg-slate-200 dark:bg-slate-700 rounded-full mb-8"><div className="h-full bg-indigo-500 transition-all duration-300 rounded-full" style={{ width: `${((index + 1) / items.length) * 100}%` }} /></div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-700 p-8">
+        <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">
+          {isEquivalence
+            ? 'Select the two answer choices that complete the sentence and produce sentences alike in meaning.'
+            : item.blanks.length === 1 ? 'Select the best answer for the blank.' : 'Select one entry for each blank.'}
+        </p>
+        <p className="text-lg font-serif leading-relaxed text-slate-800 dark:text-slate-100 mb-8">{renderPassage()}</p>
+
+        <div className={`grid gap-4 ${BLANK_COLUMNS[item.blanks.length]}`}>
+          {item.blanks.map((blank, b) => (
+            <div key={b} className="space-y-2">
+              {item.blanks.length > 1 && <div className="text-xs font-bold text-slate-400 uppercase text-center">Blank ({BLANK_LABELS[b]})</div>}
+              {blank.options.map((option, o) => {
+                const isSelected = (selections[b] || []).includes(o);
+                const isCorrect = blank.correct.includes(o);
+                let style = isSelected ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300';
+                if (result) {
+                  if (isCorrect) style = 'border-green-500 bg-green-50 dark:bg-green-900/20';
+                  else if (isSelected) style = 'border-red-500 bg-red-50 dark:bg-red-900/20';
+                  else style = 'border-slate-200 dark:border-slate-700 opacity-60';
+                }
+                return (
+                  <button key={o} onClick={() => handleSelect(b, o)} disabled={!!result} className={`w-full px-4 py-2 rounded-xl border-2 font-medium text-slate-700 dark:text-slate-200 transition-colors ${style}`}>
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {result ? (
+          <>
+            <div className={`mt-6 p-4 rounded-xl text-sm ${result.blankCorrect.every(Boolean) ? 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200' : 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200'}`}>
+              <div className="flex items-center gap-2 font-bold mb-1">
+                <LightBulbIcon className="w-5 h-5" />{result.blankCorrect.every(Boolean) ? 'Correct' : 'Not quite'}
+              </div>
+              {item.explanation}
+            </div>
+            <button onClick={handleContinue} className="w-full mt-4 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+              {index < items.length - 1 ? 'Next Question' : 'See Results'}<ArrowRightIcon className="w-5 h-5" />
+            </button>
+          </>
+        ) : (
+          <button onClick={handleCheck} disabled={!canCheck} className="w-full mt-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl">Check Answer</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PracticeSession;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ReviewAnswer } from '../types';
+import { QuizQuestion } from '../utils/quiz';
+import { CheckCircleIcon, XCircleIcon, TrophyIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
+
+interface QuizProps {
+  questions: QuizQuestion[];
+  skippedCount: number; // Targets left out for lack of definitions
+  onAnswer: (wordId: string, answer: ReviewAnswer) => void;
+  onExit: () => void;
+  keyboardShortcuts: boolean;
+}
+
+interface QuizResult {
+  question: QuizQuestion;
+  selectedIndex: number;
+}
+
+const OPTION_KEYS = ['1', '2', '3', '4'];
+
+const Quiz: React.FC<QuizProps> = ({ questions, skippedCount, onAnswer, onExit, keyboardShortcuts }) => {
+  const [index, setIndex] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [isFinished, setIsFinished] = useState(false);
+
+  // Response latency is measured from the moment the options appear
+  const shownAt = useRef(Date.now());
+  useEffect(() => { shownAt.current = Date.now(); }, [index]);
+
+  const question = questions[index];
+
+  const handleSelect = (optionIndex: number) => {
+    if (selectedIndex !== null || !question) return;
+    const correct = optionIndex === question.correctIndex;
+    setSelectedIndex(optionIndex);
+    setResults(prev => [...prev, { question, selectedIndex: optionIndex }]);
+    // Recognising a definition is weaker evidence than recalling it, so a right answer never counts as Easy
+    onAnswer(question.word.id, { grade: correct ? 'good' : 'again', responseMs: Date.now() - shownAt.current });
+  };
+
+  const handleContinue = () => {
+    if (selectedIndex === null) return;
+    if (index < questions.length - 1) {
+      setIndex(prev => prev + 1);
+      setSelectedIndex(null);
+    } else {
+      setIsFinished(true);
+    }
+  };
+
+  // 1-4 pick an option, Enter/Space moves on
+  useEffect(() => {
+    if (!keyboardShortcuts || isFinished) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const optionIndex = OPTION_KEYS.indexOf(e.key);
+      if (optionIndex !== -1 && optionIndex < (question?.options.length || 0)) {
+        handleSelect(optionIndex);
+      } else if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        handleContinue();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (isFinished) {
+    const missed = results.filter(r => r.selectedIndex !== r.question.correctIndex);
+    const score = results.length - missed.length;
+    return (
+      <div className="max-w-2xl mx-auto pb-20 animate-fade-in">
+        <div className="text-center mb-8">
+          <div className="w-20 h-20 bg-indigo-100 dark:bg-indigo-900/30 rounded-full flex items-center justify-center mx-auto mb-6"><TrophyIcon className="w-10 h-10 text-indigo-600 dark:text-indigo-400" /></div>
+          <h2 className="text-3xl font-serif font-bold text-slate-800 dark:text-white mb-2">Quiz Complete</h2>
+          <p className="text-slate-500 dark:text-slate-400 text-lg">{score} of {results.length} correct ({Math.round((score / results.length) * 100)}%)</p>
+        </div>
+        {missed.length > 0 && (
+          <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 p-6 mb-6">
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Review These</h3>
+            <ul className="space-y-4">
+              {missed.map(({ question: q }) => (
+                <li key={q.word.id}>
+                  <div className="font-serif font-bold text-slate-800 dark:text-white">{q.word.word}</div>
+                  <div className="text-sm text-slate-600 dark:text-slate-300">{q.options[q.correctIndex].definition}</div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="text-center">
+          <button onClick={onExit} className="px-8 py-3 bg-indigo-600 text-white font-bold rounded-xl hover:bg-indigo-700">Back to Dashboard</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) return <div>No questions available.</div>;
+
+  return (
+    <div className="max-w-2xl mx-auto pb-20">
+      <div className="w-full flex justify-between items-center mb-4 text-sm font-medium text-slate-400">
+        <span>Question {index + 1} of {questions.length}</span>
+        {skippedCount > 0 && <span>{skippedCount} words skipped (no details yet)</span>}
+      </div>
+      <div className="w-full h-1 bg-slate-200 dark:bg-slate-700 rounded-full mb-8"><div className="h-full bg-indigo-500 transition-all duration-300 rounded-full" style={{ width: `${((index + 1) / questions.length) * 100}%` }} /></div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-700 p-8">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Choose the definition</span>
+        <h2 className="text-4xl md:text-5xl font-serif font-bold text-slate-800 dark:text-white mt-2 mb-8">{question.word.word}</h2>
+
+        <div className="space-y-3">
+          {question.options.map((option, optionIndex) => {
+            const isCorrect = optionIndex === question.correctIndex;
+            const isSelected = optionIndex === selectedIndex;
+            let style = 'border-slate-200 dark:border-slate-700 hover:border-indigo-400 dark:hover:border-indigo-500';
+            if (selectedIndex !== null) {
+              if (isCorrect) style = 'border-green-500 bg-green-50 dark:bg-green-900/20';
+              else if (isSelected) style = 'border-red-500 bg-red-50 dark:bg-red-900/20';
+              else style = 'border-slate-200 dark:border-slate-700 opacity-60';
+            }
+            return (
+              <button key={option.wordId} onClick={() => handleSelect(optionIndex)} disabled={selectedIndex !== null} className={`w-full text-left p-4 rounded-xl border-2 transition-colors flex items-start gap-3 ${style}`}>
+                <span className="shrink-0 w-6 h-6 rounded-full bg-slate-100 dark:bg-slate-700 text-xs font-bold text-slate-500 flex items-center justify-center">{optionIndex + 1}</span>
+                <span className="flex-1 text-slate-700 dark:text-slate-200">{option.definition}</span>
+                {selectedIndex !== null && isCorrect && <CheckCircleIcon className="w-6 h-6 text-green-500 shrink-0" />}
+                {isSelected && !isCorrect && <XCircleIcon className="w-6 h-6 text-red-500 shrink-0" />}
+              </button>
+            );
+          })}
+        </div>
+
+        {selectedIndex !== null && (
+          <button onClick={handleContinue} className="w-full mt-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+            {index < questions.length - 1 ? 'Next Question' : 'See Results'}<ArrowRightIcon className="w-5 h-5" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Quiz;
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ReviewAnswer, ReviewGrade, WordData } from '../types';
+import { checkTypedAnswer, gradeForVerdict, stem, AnswerCheck, AnswerVerdict } from '../utils/answerCheck';
+import { CheckCircleIcon, XCircleIcon, ExclamationTriangleIcon, LightBulbIcon, ArrowRightIcon } from '@heroicons/react/24/outline';
+
+interface ReverseCardProps {
+  wordData: WordData;
+  confusables: string[]; // Other library words, so typing one of them isn't taken for a typo
+  onNext: (answer: ReviewAnswer) => void;
+  keyboardShortcuts: boolean;
+}
+
+const VERDICTS: Record<AnswerVerdict, { label: string; className: string }> = {
+  exact: { label: 'Correct', className: 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200' },
+  inflection: { label: 'Correct (different form)', className: 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-200' },
+  close: { label: 'Almost, check the spelling', className: 'bg-amber-50 text-amber-800 dark:bg-amber-900/20 dark:text-amber-200' },
+  wrong: { label: 'Not this time', className: 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-200' },
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Blanks out the word (and its inflections) so an example can serve as a hint
+const maskWord = (text: string, word: string): string => {
+  const root = stem(word) || word;
+  return text.replace(new RegExp(`\\b${escapeRegExp(root)}\\w*`, 'gi'), '_____');
+};
+
+const ReverseCard: React.FC<ReverseCardProps> = ({ wordData, confusables, onNext, keyboardShortcuts }) => {
+  const [input, setInput] = useState('');
+  const [check, setCheck] = useState<AnswerCheck | null>(null);
+  const [showHint, setShowHint] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Response latency is measured from the moment the prompt appears
+  const shownAt = useRef(Date.now());
+  const responseMs = useRef(0);
+  const hasAnswered = useRef(false);
+
+  useEffect(() => { inputRef.current?.focus(); }, []);
+
+  const handleCheck = (giveUp = false) => {
+    if (check) return;
+    responseMs.current = Date.now() - shownAt.current;
+    setCheck(giveUp ? { verdict: 'wrong', distance: wordData.word.length } : checkTypedAnswer(input, wordData.word, confusables));
+  };
+
+  const handleNext = (grade: ReviewGrade) => {
+    if (hasAnswered.current) return;
+    hasAnswered.current = true;
+    onNext({ grade, responseMs: responseMs.current });
+  };
+
+  // Enter checks the answer, then accepts the suggested grade
+  useEffect(() => {
+    if (!keyboardShortcuts || !check) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        handleNext(gradeForVerdict(check.verdict));
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  const hint = wordData.examples[0] ? maskWord(wordData.examples[0].text, wordData.word) : null;
+  const verdict = check ? VERDICTS[check.verdict] : null;
+  const isCorrect = check && gradeForVerdict(check.verdict) === 'good';
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-xl border border-slate-100 dark:border-slate-700 p-8">
+        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Which word means...</span>
+        <div className="space-y-3 mt-4 mb-6">
+          {wordData.definitions.map((def, idx) => (
+            <div key={idx}>
+              <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">{def.contextType}</span>
+              <p className="text-xl font-serif text-slate-800 dark:text-slate-100">{maskWord(def.definition, wordData.word)}</p>
+            </div>
+          ))}
+        </div>
+
+        {hint && (
+          showHint || check
+            ? <p className="text-sm italic text-slate-500 dark:text-slate-400 mb-6">"{hint}"</p>
+            : <button onClick={() => setShowHint(true)} className="flex items-center gap-1 text-sm text-indigo-500 hover:text-indigo-700 mb-6"><LightBulbIcon className="w-4 h-4" />Show an example</button>
+        )}
+
+        <form onSubmit={(e) => { e.preventDefault(); handleCheck(); }} className="flex gap-2">
+          <input
+            ref={inputRef}
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            disabled={!!check}
+            placeholder="Type the word"
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+            className="flex-1 px-4 py-3 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl focus:ring-2 focus:ring-indigo-500 outline-none text-lg text-slate-900 dark:text-white font-medium"
+          />
+          {!check && <button type="submit" disabled={!input.trim()} className="px-6 py-3 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white font-bold rounded-xl">Check</button>}
+        </form>
+        {!check && <button onClick={() => handleCheck(true)} className="mt-3 text-sm text-slate-400 hover:text-slate-600 dark:hover:text-slate-200">I don't know</button>}
+
+        {check && verdict && (
+          <div className="mt-6 space-y-4 animate-fade-in">
+            <div className={`p-4 rounded-xl flex items-center gap-3 ${verdict.className}`}>
+              {isCorrect ? <CheckCircleIcon className="w-6 h-6 shrink-0" /> : check.verdict === 'close' ? <ExclamationTriangleIcon className="w-6 h-6 shrink-0" /> : <XCircleIcon className="w-6 h-6 shrink-0" />}
+              <div>
+                <div className="font-bold">{verdict.label}</div>
+                <div className="text-2xl font-serif font-bold">{wordData.word}</div>
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button onClick={() => handleNext(gradeForVerdict(check.verdict))} className="flex-1 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+                Continue<ArrowRightIcon className="w-5 h-5" />
+              </button>
+              {!isCorrect && input.trim() && (
+                <button onClick={() => handleNext('good')} className="py-3 px-4 border-2 border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 font-bold rounded-xl">
+                  I was right, count it
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReverseCard;
@@ -0,0 +1,78 @@
+import React, { useState, useEffect } from 'react';
+import { ReviewGrade, ReviewLogEntry } from '../types';
+import { getReviewLogForWord } from '../utils/db';
+import { isLapse } from '../utils/srs';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface ReviewHistoryProps {
+  wordId: string;
+  lapses: number;
+}
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  hard: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  good: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300',
+  easy: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+};
+
+const ReviewHistory: React.FC<ReviewHistoryProps> = ({ wordId, lapses }) => {
+  const [entries, setEntries] = useState<ReviewLogEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviewLogForWord(wordId)
+      .then(log => { if (!cancelled) setEntries(log); })
+      .catch(e => {
+        console.error("Failed to load review history", e);
+        if (!cancelled) setEntries([]);
+      });
+    return () => { cancelled = true; };
+  }, [wordId]);
+
+  if (!entries) {
+    return (
+      <div className="flex justify-center py-6 text-slate-400">
+        <ArrowPathIcon className="w-6 h-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-4 text-sm">
+        <div className="flex-1 bg-slate-50 dark:bg-slate-700/30 rounded-lg p-3 text-center">
+          <div className="text-2xl font-bold text-slate-800 dark:text-white">{entries.length}</div>
+          <div className="text-xs text-slate-500 uppercase font-bold">Reviews</div>
+        </div>
+        <div className="flex-1 bg-red-50 dark:bg-red-900/10 rounded-lg p-3 text-center">
+          <div className="text-2xl font-bold text-red-600 dark:text-red-400">{lapses}</div>
+          <div className="text-xs text-slate-500 uppercase font-bold">Lapses</div>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center text-slate-400 py-4 text-sm">No answers recorded yet.</div>
+      ) : (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+          {[...entries].reverse().map((entry, idx) => (
+            <li key={entry.id ?? idx} className="flex items-center justify-between gap-3 py-2 text-sm">
+              <span className="text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                {new Date(entry.timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+              </span>
+              <span className={`px-2 py-0.5 rounded-full text-xs font-bold uppercase ${GRADE_STYLES[entry.grade]}`}>
+                {entry.grade}{isLapse(entry) ? ' · lapse' : ''}
+              </span>
+              {entry.direction === 'reverse' && <span className="text-xs font-bold text-teal-600 dark:text-teal-400 uppercase">Reverse</span>}
+              {entry.learningStep && <span className="text-xs font-bold text-slate-400 uppercase">Learning Step</span>}
+              <span className="font-mono text-xs text-slate-500 whitespace-nowrap">Box {entry.boxBefore} → {entry.boxAfter}</span>
+              <span className="font-mono text-xs text-slate-400 whitespace-nowrap">{(entry.responseMs / 1000).toFixed(1)}s</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ReviewHistory;
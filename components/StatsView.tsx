@@ -0,0 +1,195 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ReviewLogEntry, WordData } from '../types';
+import { getReviewLogByDateRange } from '../utils/db';
+import { buildHeatmap, getRetentionByBox, getDueForecast, getStudyTimeMs, getHardestWords, formatStudyTime, startOfDay } from '../utils/stats';
+import { ArrowPathIcon, ChartBarIcon, PlayCircleIcon } from '@heroicons/react/24/outline';
+
+interface StatsViewProps {
+  words: WordData[];
+  onStudyWords: (words: WordData[]) => void;
+}
+
+const HEATMAP_WEEKS = 26;
+const FORECAST_DAYS = 30;
+const HARDEST_WORD_COUNT = 10;
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const CELL = 12;
+const CELL_GAP = 3;
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+// Literal class names, as Tailwind only ships classes it can find in the source
+const heatmapFill = (count: number): string => {
+  if (count === 0) return 'fill-slate-100 dark:fill-slate-700';
+  if (count < 5) return 'fill-indigo-200 dark:fill-indigo-900';
+  if (count < 15) return 'fill-indigo-400 dark:fill-indigo-700';
+  if (count < 30) return 'fill-indigo-600 dark:fill-indigo-500';
+  return 'fill-indigo-800 dark:fill-indigo-300';
+};
+
+const Card: React.FC<{ title: string; subtitle?: string; children: React.ReactNode }> = ({ title, subtitle, children }) => (
+  <div className="bg-white dark:bg-slate-800 p-6 rounded-2xl border border-slate-200 dark:border-slate-700 shadow-sm">
+    <h3 className="font-bold text-slate-800 dark:text-white">{title}</h3>
+    {subtitle && <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">{subtitle}</p>}
+    {children}
+  </div>
+);
+
+// Review history and schedule at a glance: activity, retention, upcoming load and trouble words
+const StatsView: React.FC<StatsViewProps> = ({ words, onStudyWords }) => {
+  const [entries, setEntries] = useState<ReviewLogEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getReviewLogByDateRange(0, Date.now())
+      .then(log => { if (!cancelled) setEntries(log); })
+      .catch(e => {
+        console.error("Failed to load review log", e);
+        if (!cancelled) setEntries([]);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  const forecast = useMemo(() => getDueForecast(words, FORECAST_DAYS), [words]);
+  const hardest = useMemo(() => getHardestWords(words, HARDEST_WORD_COUNT), [words]);
+  const summary = useMemo(() => {
+    if (!entries) return null;
+    const now = Date.now();
+    const today = startOfDay(now);
+    const learned = entries.filter(e => e.boxBefore > 0 && !e.learningStep);
+    return {
+      heatmap: buildHeatmap(entries, HEATMAP_WEEKS, now),
+      retention: getRetentionByBox(entries),
+      overallRetention: learned.length > 0 ? learned.filter(e => e.grade !== 'again').length / learned.length : null,
+      timeToday: getStudyTimeMs(entries.filter(e => e.timestamp >= today)),
+      timeWeek: getStudyTimeMs(entries.filter(e => e.timestamp >= now - WEEK_MS)),
+      timeTotal: getStudyTimeMs(entries),
+    };
+  }, [entries]);
+
+  if (!entries || !summary) {
+    return (
+      <div className="flex justify-center py-20 text-slate-400">
+        <ArrowPathIcon className="w-8 h-8 animate-spin" />
+      </div>
+    );
+  }
+
+  const tiles = [
+    { label: 'Reviews', value: entries.length.toLocaleString() },
+    { label: 'True Retention', value: summary.overallRetention === null ? '–' : `${Math.round(summary.overallRetention * 100)}%` },
+    { label: 'Today', value: formatStudyTime(summary.timeToday) },
+    { label: 'Last 7 Days', value: formatStudyTime(summary.timeWeek) },
+    { label: 'All Time', value: formatStudyTime(summary.timeTotal) },
+  ];
+
+  const weekCount = Math.ceil(summary.heatmap.length / 7);
+  const heatmapWidth = 28 + weekCount * (CELL + CELL_GAP);
+  const heatmapHeight = 16 + 7 * (CELL + CELL_GAP);
+
+  const forecastMax = Math.max(1, ...forecast);
+  const barWidth = 100 / FORECAST_DAYS;
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-20">
+      <div className="border-b border-slate-200 dark:border-slate-800 pb-6">
+        <h1 className="text-3xl font-serif font-bold text-slate-900 dark:text-white flex items-center gap-3"><ChartBarIcon className="w-8 h-8 text-indigo-500" /> Stats</h1>
+        <p className="text-slate-500 dark:text-slate-400">How your reviews are going and what's coming up.</p>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+        {tiles.map(tile => (
+          <div key={tile.label} className="bg-white dark:bg-slate-800 p-4 rounded-2xl border border-slate-200 dark:border-slate-700 text-center">
+            <div className="text-2xl font-bold text-slate-800 dark:text-white">{tile.value}</div>
+            <div className="text-xs text-slate-500 uppercase font-bold">{tile.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <Card title="Review Activity" subtitle={`Answers per day over the last ${HEATMAP_WEEKS} weeks`}>
+        <div className="overflow-x-auto">
+          <svg width={heatmapWidth} height={heatmapHeight} className="block">
+            {WEEKDAY_LABELS.map((label, day) => label && (
+              <text key={day} x={0} y={16 + day * (CELL + CELL_GAP) + CELL - 2} className="fill-slate-400 text-[9px]">{label}</text>
+            ))}
+            {summary.heatmap.map((day, i) => {
+              const week = Math.floor(i / 7);
+              const date = new Date(day.dayStart);
+              const showMonth = date.getDate() <= 7 && date.getDay() === 0;
+              return (
+                <g key={day.dayStart}>
+                  {showMonth && <text x={28 + week * (CELL + CELL_GAP)} y={10} className="fill-slate-400 text-[9px]">{date.toLocaleDateString(undefined, { month: 'short' })}</text>}
+                  <rect x={28 + week * (CELL + CELL_GAP)} y={16 + (i % 7) * (CELL + CELL_GAP)} width={CELL} height={CELL} rx={2} className={heatmapFill(day.count)}>
+                    <title>{`${date.toLocaleDateString()}: ${day.count} reviews`}</title>
+                  </rect>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card title="Retention by Box" subtitle="Share of learned cards still remembered, by the box they were reviewed from">
+          <svg viewBox="0 0 300 150" className="w-full h-auto">
+            {summary.retention.map((stat, i) => {
+              const rate = stat.reviews > 0 ? stat.retained / stat.reviews : 0;
+              const y = i * 30;
+              return (
+                <g key={stat.box}>
+                  <text x={0} y={y + 17} className="fill-slate-500 text-[11px] font-bold">Box {stat.box}</text>
+                  <rect x={48} y={y + 6} width={180} height={16} rx={4} className="fill-slate-100 dark:fill-slate-700" />
+                  {stat.reviews > 0 && <rect x={48} y={y + 6} width={180 * rate} height={16} rx={4} className={rate >= 0.85 ? 'fill-green-500' : rate >= 0.7 ? 'fill-amber-500' : 'fill-red-500'} />}
+                  <text x={234} y={y + 18} className="fill-slate-600 dark:fill-slate-300 text-[11px]">
+                    {stat.reviews > 0 ? `${Math.round(rate * 100)}% · ${stat.reviews}` : 'no reviews'}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </Card>
+
+        <Card title="Due Forecast" subtitle={`Cards due each day for the next ${FORECAST_DAYS} days; overdue cards count toward today`}>
+          <svg viewBox="0 0 100 60" preserveAspectRatio="none" className="w-full h-32">
+            {forecast.map((count, day) => {
+              const height = (count / forecastMax) * 56;
+              return (
+                <rect key={day} x={day * barWidth + 0.3} y={58 - height} width={barWidth - 0.6} height={Math.max(height, count > 0 ? 0.8 : 0)} className={day === 0 ? 'fill-indigo-600' : 'fill-indigo-300 dark:fill-indigo-700'}>
+                  <title>{`${day === 0 ? 'Today' : new Date(Date.now() + day * 86400000).toLocaleDateString()}: ${count} due`}</title>
+                </rect>
+              );
+            })}
+            <line x1={0} y1={58.5} x2={100} y2={58.5} className="stroke-slate-200 dark:stroke-slate-600" strokeWidth={0.5} />
+          </svg>
+          <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+            <span>Today ({forecast[0]})</span><span>+7d</span><span>+14d</span><span>+21d</span><span>+{FORECAST_DAYS - 1}d</span>
+          </div>
+        </Card>
+      </div>
+
+      <Card title="Hardest Words" subtitle="Most often forgotten after being learned">
+        {hardest.length === 0 ? (
+          <p className="text-sm text-slate-400 py-4 text-center">No lapses yet.</p>
+        ) : (
+          <>
+            <ul className="divide-y divide-slate-100 dark:divide-slate-700 mb-4">
+              {hardest.map(word => (
+                <li key={word.id} className="flex items-center justify-between py-2">
+                  <span className="font-serif font-bold text-slate-800 dark:text-white">{word.word}</span>
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    <span className="font-bold text-red-600 dark:text-red-400">{word.lapses} lapses</span> · {word.mastered ? 'Mastered' : `Box ${word.leitnerBox}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            <button onClick={() => onStudyWords(hardest)} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+              <PlayCircleIcon className="w-5 h-5" /> Drill These Words
+            </button>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default StatsView;
@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { WordData } from '../types';
+import { XMarkIcon, PlayCircleIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+
+interface WordPeekProps {
+  word: WordData;
+  isFetching: boolean; // Details are queued or being looked up
+  onStudy: (word: WordData) => void;
+  onClose: () => void;
+}
+
+// A word's card over whatever is being read, without leaving the page
+const WordPeek: React.FC<WordPeekProps> = ({ word, isFetching, onStudy, onClose }) => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-end sm:items-center justify-center bg-slate-900/40 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[80vh] overflow-y-auto bg-white dark:bg-slate-800 rounded-3xl shadow-2xl border border-slate-100 dark:border-slate-700 p-6 animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-3xl font-serif font-bold text-slate-900 dark:text-white">{word.word}</h3>
+            <span className="text-xs font-bold text-slate-400 uppercase">{word.mastered ? 'Mastered' : word.leitnerBox > 0 ? 'In progress' : 'Not studied yet'}</span>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-700 dark:hover:text-white"><XMarkIcon className="w-6 h-6" /></button>
+        </div>
+
+        {word.definitions.length > 0 ? (
+          <div className="space-y-3 mb-4">
+            {word.definitions.map((def, idx) => (
+              <div key={idx}>
+                <span className="text-xs font-bold text-indigo-500 uppercase tracking-wide">{def.contextType}</span>
+                <p className="text-slate-700 dark:text-slate-200">{def.definition}</p>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-slate-500 dark:text-slate-400 mb-4">
+            {isFetching && <ArrowPathIcon className="w-4 h-4 animate-spin" />}
+            {isFetching ? 'Fetching meaning...' : 'No details yet. They are looked up when you study the word.'}
+          </p>
+        )}
+
+        {word.synonyms.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-4">
+            {word.synonyms.map(s => <span key={s} className="px-2 py-0.5 rounded-md bg-slate-100 dark:bg-slate-700 text-sm text-slate-600 dark:text-slate-300">{s}</span>)}
+          </div>
+        )}
+        {word.aiMnemonic && <p className="text-sm italic text-slate-500 dark:text-slate-400 mb-4">{word.aiMnemonic}</p>}
+
+        <button onClick={() => onStudy(word)} className="w-full py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-bold rounded-xl flex items-center justify-center gap-2">
+          <PlayCircleIcon className="w-5 h-5" /> Study this word
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WordPeek;
@@ -0,0 +1,100 @@
+// Service worker: keeps the app usable with no network. The app shell and the built bundles are
+// precached on install; everything else the page loads is cached the first time it's fetched.
+// Bump CACHE_VERSION with each release so the new bundles are precached; until then they are
+// cached as the freshly loaded page requests them.
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = [
+  '/',
+  '/index.html',
+  '/manifest.json',
+  '/icons/icon.svg',
+  '/icons/icon-180.png',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+];
+
+// Styles, fonts and modules index.html pulls from CDNs. Served from cache, refreshed in the background.
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+const CDN_URLS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=Merriweather:ital,wght@0,300;0,400;0,700;1,400&display=swap',
+];
+
+// Written by the precache-manifest plugin in vite.config.ts: every hashed file in /assets
+const PRECACHE_MANIFEST = '/precache-manifest.json';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(SHELL_URLS);
+    const manifest = await fetch(PRECACHE_MANIFEST, { cache: 'no-store' });
+    if (manifest.ok) await shell.addAll(await manifest.json());
+
+    // Best effort: the shell still works online if a CDN is unreachable right now
+    const runtime = await caches.open(RUNTIME_CACHE);
+    await Promise.all(CDN_URLS.map(url =>
+      fetch(url, { mode: 'no-cors' }).then(response => runtime.put(url, response)).catch(() => undefined)
+    ));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keep = [SHELL_CACHE, RUNTIME_CACHE];
+    const names = await caches.keys();
+    await Promise.all(names.filter(name => !keep.includes(name)).map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) (await caches.open(RUNTIME_CACHE)).put(request, response.clone());
+  return response;
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cached = await caches.match(request);
+  const refresh = fetch(request)
+    .then(async (response) => {
+      // Opaque (cross-origin, no-cors) responses report status 0 but are fine to keep
+      if (response.ok || response.type === 'opaque') (await caches.open(RUNTIME_CACHE)).put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached || refresh;
+};
+
+// Pages always try the network so a new deploy shows up, and fall back to the cached shell
+const networkFirstPage = async (request) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) (await caches.open(SHELL_CACHE)).put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await caches.match('/index.html')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI calls are POSTs and always go to the network; the app queues them while offline
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (url.origin === self.location.origin) {
+    // Hashed build output never changes under the same name
+    event.respondWith(url.pathname.startsWith('/assets/') ? cacheFirst(request) : staleWhileRevalidate(request));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
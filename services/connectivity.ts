@@ -0,0 +1,52 @@
+// Tracks whether the browser is online and how many AI calls are parked waiting for it.
+// navigator.onLine can report online on a captive portal, but when it says offline it's right,
+// so calls only wait while it's false and otherwise go out and fail normally.
+
+export interface ConnectivityStatus {
+  online: boolean;
+  waiting: number; // AI calls held until the connection returns
+}
+
+const listeners = new Set<(status: ConnectivityStatus) => void>();
+let waiting = 0;
+
+export const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine;
+
+const notify = () => {
+  const status = { online: isOnline(), waiting };
+  listeners.forEach(listener => listener(status));
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', notify);
+  window.addEventListener('offline', notify);
+}
+
+export const subscribeConnectivity = (listener: (status: ConnectivityStatus) => void): (() => void) => {
+  listeners.add(listener);
+  listener({ online: isOnline(), waiting });
+  return () => { listeners.delete(listener); };
+};
+
+// Raised by lookups that were told not to wait for the connection
+export const offlineError = () => new DOMException('No connection', 'NetworkError');
+
+export const isOfflineError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'NetworkError';
+};
+
+// Resolves straight away when online, otherwise once the browser reports a connection again
+export const waitForOnline = (): Promise<void> => {
+  if (isOnline()) return Promise.resolve();
+  waiting++;
+  notify();
+  return new Promise(resolve => {
+    const onOnline = () => {
+      window.removeEventListener('online', onOnline);
+      waiting--;
+      resolve();
+      notify();
+    };
+    window.addEventListener('online', onOnline);
+  });
+};
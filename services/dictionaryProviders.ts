@@ -0,0 +1,136 @@
+import { DictionaryProviderId } from "../types";
+import { fetchWordDetails } from "./geminiService";
+import { validateWordDetails, ValidatedWordDetails } from "../utils/validation";
+import { isOnline, offlineError } from "./connectivity";
+
+export interface DictionaryProvider {
+  id: DictionaryProviderId;
+  label: string;
+  description: string;
+  testOnly?: boolean; // Hidden from Settings
+  needsNetwork: boolean;
+  // Untrusted until it has been through validateWordDetails
+  fetchWordDetails: (word: string) => Promise<unknown>;
+}
+
+// Shape of data/dictionary.json: a trimmed WordNet-style export keyed by lowercase lemma
+interface LocalSense {
+  pos: string; // "noun", "verb", "adjective", "adverb"
+  gloss: string;
+  examples?: string[];
+}
+
+interface LocalEntry {
+  senses: LocalSense[];
+  synonyms?: string[];
+  etymology?: string;
+}
+
+interface LocalDictionary {
+  format: string;
+  source: string;
+  attribution?: string; // License notice for third-party entries
+  entries: Record<string, LocalEntry>;
+}
+
+const geminiProvider: DictionaryProvider = {
+  id: 'gemini',
+  label: 'Gemini + Google Search',
+  description: 'Live dictionary lookups, real publication examples and an AI mnemonic. Needs an API key and a connection.',
+  needsNetwork: true,
+  fetchWordDetails
+};
+
+// Loaded on first use so the dictionary doesn't weigh down the initial bundle
+let localDictionary: Promise<LocalDictionary> | null = null;
+const loadLocalDictionary = (): Promise<LocalDictionary> => {
+  if (!localDictionary) {
+    localDictionary = import('../data/dictionary.json')
+      .then(module => (module.default || module) as LocalDictionary)
+      .catch(error => {
+        localDictionary = null;
+        throw error;
+      });
+  }
+  return localDictionary;
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const localProvider: DictionaryProvider = {
+  id: 'local',
+  label: 'Offline Dictionary',
+  description: 'Bundled definitions for the course word list. Works without a network, but has no mnemonics.',
+  needsNetwork: false,
+  fetchWordDetails: async (word) => {
+    const dictionary = await loadLocalDictionary();
+    const entry = dictionary.entries[word.trim().toLowerCase()];
+    if (!entry) throw new Error(`"${word}" is not in the offline dictionary`);
+
+    return {
+      definitions: entry.senses.map(sense => ({ contextType: capitalize(sense.pos), definition: sense.gloss })),
+      examples: entry.senses.flatMap(sense => (sense.examples || []).map(text => ({ text, source: dictionary.source }))),
+      synonyms: entry.synonyms || [],
+      etymology: entry.etymology || '',
+      aiMnemonic: ''
+    };
+  }
+};
+
+// Deterministic, instant data for tests and offline UI work
+const mockProvider: DictionaryProvider = {
+  id: 'mock',
+  label: 'Mock Data',
+  description: 'Placeholder details for testing.',
+  testOnly: true,
+  needsNetwork: false,
+  fetchWordDetails: async (word) => ({
+    definitions: [{ contextType: 'Noun', definition: `A placeholder definition of "${word}".` }],
+    examples: [{ text: `This sentence uses ${word} in context.`, source: 'Mock Source' }],
+    synonyms: [`${word}-synonym`],
+    etymology: `Mock etymology for ${word}.`,
+    aiMnemonic: `Picture a giant "${word}" written in the sky.`
+  })
+};
+
+export const DICTIONARY_PROVIDERS: Record<DictionaryProviderId, DictionaryProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+  mock: mockProvider
+};
+
+// Tries each provider in order and returns the first usable answer, along with which one answered.
+// An answer without a single valid definition counts as a failure and falls through to the next source.
+// Offline, sources that work without a network go first; network sources then wait for a connection,
+// unless `waitForNetwork` is off, in which case they're skipped and the lookup fails with offlineError.
+export const lookupWordDetails = async (
+  word: string,
+  providerOrder: DictionaryProviderId[],
+  options: { waitForNetwork?: boolean } = {}
+): Promise<ValidatedWordDetails & { providerId: DictionaryProviderId }> => {
+  const { waitForNetwork = true } = options;
+  const errors: string[] = [];
+  const order = isOnline()
+    ? providerOrder
+    : [...providerOrder].sort((a, b) => Number(!!DICTIONARY_PROVIDERS[a]?.needsNetwork) - Number(!!DICTIONARY_PROVIDERS[b]?.needsNetwork));
+  let skippedOffline = false;
+  for (const id of order) {
+    const provider = DICTIONARY_PROVIDERS[id];
+    if (!provider) continue;
+    if (provider.needsNetwork && !waitForNetwork && !isOnline()) {
+      skippedOffline = true;
+      continue;
+    }
+    try {
+      const validated = validateWordDetails(await provider.fetchWordDetails(word));
+      if (validated.details.definitions.length === 0) throw new Error('No valid definitions in response');
+      if (validated.isPartial) console.warn(`Partial details for "${word}" from ${provider.label}:`, validated.issues);
+      return { ...validated, providerId: id };
+    } catch (error) {
+      console.warn(`${provider.label} could not look up "${word}"`, error);
+      errors.push(`${provider.label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (skippedOffline) throw offlineError();
+  throw new Error(errors.length > 0 ? errors.join('; ') : 'No dictionary source is enabled');
+};
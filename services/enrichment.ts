@@ -0,0 +1,147 @@
+import { DictionaryProviderId, WordData } from "../types";
+import { ValidatedWordDetails } from "../utils/validation";
+import { lookupWordDetails } from "./dictionaryProviders";
+import { isOnline } from "./connectivity";
+
+// Every dictionary lookup in the app goes through this queue: the background
+// enrichment worker, the card being studied and the session prefetcher. It
+// caps concurrency, spaces requests out for the Gemini rate limit, and hands
+// the same promise to everyone asking for a word that is already in flight.
+
+const MAX_CONCURRENT = 2;
+const MIN_START_INTERVAL_MS = 1000;
+const RATE_LIMIT_BACKOFF_MS = 30 * 1000;
+
+// Lower runs first
+export const PRIORITY = {
+  current: 0, // The card on screen
+  prefetch: 1, // Upcoming cards in the session
+  background: 2 // Enrichment queue
+};
+
+interface EnrichJob {
+  word: WordData;
+  providerOrder: DictionaryProviderId[];
+  priority: number;
+  queuedAt: number;
+  started: boolean;
+  // Callers that may still cancel; `null` marks a caller that can't, so the job always runs
+  interested: Set<AbortSignal | null>;
+  promise: Promise<ValidatedWordDetails>;
+  resolve: (details: ValidatedWordDetails) => void;
+  reject: (error: unknown) => void;
+}
+
+const jobs = new Map<string, EnrichJob>();
+let activeCount = 0;
+let nextStartAt = 0;
+let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+const isRateLimitError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return /429|RESOURCE_EXHAUSTED|rate limit/i.test(message);
+};
+
+const startJob = async (wordId: string, job: EnrichJob) => {
+  job.started = true;
+  activeCount++;
+  nextStartAt = Date.now() + MIN_START_INTERVAL_MS;
+  try {
+    // The card on screen shouldn't sit waiting for a connection; everything else can
+    job.resolve(await lookupWordDetails(job.word.word, job.providerOrder, { waitForNetwork: job.priority !== PRIORITY.current }));
+  } catch (error) {
+    if (isRateLimitError(error)) nextStartAt = Date.now() + RATE_LIMIT_BACKOFF_MS;
+    job.reject(error);
+  } finally {
+    activeCount--;
+    jobs.delete(wordId);
+    pump();
+  }
+};
+
+const pump = () => {
+  if (pumpTimer) {
+    clearTimeout(pumpTimer);
+    pumpTimer = null;
+  }
+  while (activeCount < MAX_CONCURRENT) {
+    // Offline, only the card on screen is looked up, so lookups parked waiting for the
+    // network can't take both slots away from it
+    const waiting = [...jobs.entries()]
+      .filter(([, job]) => !job.started && (isOnline() || job.priority === PRIORITY.current))
+      .sort(([, a], [, b]) => a.priority - b.priority || a.queuedAt - b.queuedAt);
+    if (waiting.length === 0) return;
+
+    const wait = nextStartAt - Date.now();
+    if (wait > 0) {
+      pumpTimer = setTimeout(pump, wait);
+      return;
+    }
+    const [wordId, job] = waiting[0];
+    startJob(wordId, job);
+  }
+};
+
+if (typeof window !== 'undefined') window.addEventListener('online', () => pump());
+
+const abortError = () => new DOMException('Lookup cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean => {
+  return error instanceof DOMException && error.name === 'AbortError';
+};
+
+// Resolves with validated details for the word. Merge them onto the latest copy of the word
+// (see applyWordDetails) rather than the one passed in, which may be stale by then.
+export const enrichWord = (
+  word: WordData,
+  providerOrder: DictionaryProviderId[],
+  options: { priority?: number; signal?: AbortSignal } = {}
+): Promise<ValidatedWordDetails> => {
+  const { priority = PRIORITY.background, signal } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  let job = jobs.get(word.id);
+  if (!job) {
+    let resolve!: EnrichJob['resolve'];
+    let reject!: EnrichJob['reject'];
+    const promise = new Promise<ValidatedWordDetails>((res, rej) => { resolve = res; reject = rej; });
+    job = { word, providerOrder, priority, queuedAt: Date.now(), started: false, interested: new Set(), promise, resolve, reject };
+    jobs.set(word.id, job);
+  } else {
+    job.priority = Math.min(job.priority, priority);
+  }
+
+  const currentJob = job;
+  currentJob.interested.add(signal || null);
+  signal?.addEventListener('abort', () => {
+    currentJob.interested.delete(signal);
+    // Only drop work nobody is waiting for; a lookup already on the wire is left to finish
+    if (!currentJob.started && currentJob.interested.size === 0) {
+      jobs.delete(word.id);
+      currentJob.reject(abortError());
+    }
+  }, { once: true });
+
+  pump();
+  return currentJob.promise;
+};
+
+export const isEnriching = (wordId: string): boolean => jobs.has(wordId);
+
+// Queues lookups for the words that still need details, in order, until `signal` is aborted
+export const prefetchWords = (
+  words: WordData[],
+  providerOrder: DictionaryProviderId[],
+  signal: AbortSignal,
+  onEnriched: (wordId: string, details: ValidatedWordDetails) => void
+): void => {
+  words
+    .filter(w => w.definitions.length === 0)
+    .forEach(w => {
+      enrichWord(w, providerOrder, { priority: PRIORITY.prefetch, signal })
+        .then(details => { if (!signal.aborted) onEnriched(w.id, details); })
+        .catch(error => {
+          if (!isAbortError(error)) console.error(`Failed to prefetch ${w.word}`, error);
+        });
+    });
+};
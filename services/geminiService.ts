@@ -1,5 +1,6 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { WordData, ExampleSentence, WordContext, ReadingArticle } from "../types";
+import { ExampleSentence, WordContext, ReadingArticle } from "../types";
+import { isOnline, waitForOnline } from "./connectivity";
 
 const getClient = () => {
   const apiKey = process.env.API_KEY;
@@ -25,18 +26,21 @@ const parseJSONResponse = (text: string): any => {
   }
 };
 
-// Retry helper
+// Retry helper. Calls made offline wait for the connection instead of using up their retries.
 async function retry<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+  await waitForOnline();
   try {
     return await fn();
   } catch (error) {
+    if (!isOnline()) return retry(fn, retries, delay); // Dropped mid-call; try again once back
     if (retries <= 0) throw error;
     await new Promise(resolve => setTimeout(resolve, delay));
     return retry(fn, retries - 1, delay * 2); // Exponential backoff
   }
 }
 
-export const fetchWordDetails = async (word: string): Promise<Partial<WordData>> => {
+// Returns the raw parsed reply; run it through validateWordDetails before storing any of it
+export const fetchWordDetails = async (word: string): Promise<unknown> => {
   const ai = getClient();
   
   const prompt = `
@@ -80,7 +84,7 @@ export const fetchWordDetails = async (word: string): Promise<Partial<WordData>>
       const text = response.text;
       if (!text) throw new Error("No response from AI");
       
-      return parseJSONResponse(text) as Partial<WordData>;
+      return parseJSONResponse(text);
     } catch (error) {
       console.warn(`Attempt failed for ${word}:`, error);
       throw error;
@@ -94,6 +98,7 @@ export const generateWordImage = async (word: string, mnemonic: string): Promise
   The concept is: ${mnemonic || "A visual representation of " + word}. 
   Do not include text in the image.`;
 
+  await waitForOnline();
   try {
      const response = await ai.models.generateContent({
         model: 'gemini-2.5-flash-image',
@@ -139,6 +144,7 @@ export const validateSentence = async (word: string, sentence: string): Promise<
     required: ["isCorrect", "feedback"],
   };
 
+  await waitForOnline();
   try {
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
@@ -157,7 +163,258 @@ export const validateSentence = async (word: string, sentence: string): Promise<
   }
 };
 
-export const getDailyReadings = async (): Promise<ReadingArticle[]> => {
+// Builds GRE Text Completion and Sentence Equivalence items that test the given words.
+// Returns the raw parsed reply; run it through validatePracticeItems before showing any of it.
+export const generatePracticeItems = async (words: string[]): Promise<unknown> => {
+  const ai = getClient();
+
+  const prompt = `
+    Write GRE verbal practice items for a student who is learning these words: ${words.map(w => `"${w}"`).join(', ')}.
+
+    Write exactly 6 items:
+    - 2 Text Completion items with ONE blank: 5 options, exactly 1 correct.
+    - 1 Text Completion item with TWO blanks: 3 options per blank, exactly 1 correct per blank.
+    - 1 Text Completion item with THREE blanks: 3 options per blank, exactly 1 correct per blank.
+    - 2 Sentence Equivalence items: ONE blank, 6 options, exactly 2 correct options that give the sentence the same meaning.
+
+    Rules:
+    - Every item must have at least one of the student's words as a correct answer, spelled exactly as given above.
+    - Mark blanks in the passage as [1], [2], [3], each used once, in order.
+    - Distractors should be plausible GRE-level words; avoid options that are also defensible answers.
+    - "correct" holds zero-based indexes into "options".
+    - The explanation says which context clues point to the answers and why the main distractors fail, in 2-3 sentences.
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      items: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, enum: ["text-completion", "sentence-equivalence"] },
+            passage: { type: Type.STRING },
+            blanks: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  correct: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                },
+                required: ["options", "correct"],
+              },
+            },
+            explanation: { type: Type.STRING },
+          },
+          required: ["type", "passage", "blanks", "explanation"],
+        },
+      },
+    },
+    required: ["items"],
+  };
+
+  return retry(async () => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+    return parseJSONResponse(text);
+  });
+};
+
+// Sorts the given words into groups of near-synonyms, GRE word-group style.
+// Returns the raw parsed reply; run it through validateWordGroups before using it.
+export const groupWordsByMeaning = async (words: string[]): Promise<unknown> => {
+  const ai = getClient();
+
+  const prompt = `
+    Sort these GRE words into groups of words that share a core meaning: ${words.map(w => `"${w}"`).join(', ')}.
+
+    Rules:
+    - Each group has 2 to 10 words and a short label naming the shared meaning (e.g. "to praise", "stubborn").
+    - Use only the words given, spelled exactly as given. A word goes in at most one group.
+    - Leave out words that don't fit a group; don't force them in.
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      groups: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            label: { type: Type.STRING },
+            words: { type: Type.ARRAY, items: { type: Type.STRING } },
+          },
+          required: ["label", "words"],
+        },
+      },
+    },
+    required: ["groups"],
+  };
+
+  return retry(async () => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+    return parseJSONResponse(text);
+  });
+};
+
+// A GRE-style reading passage that uses the given words naturally.
+// Returns the raw parsed reply; run it through validateReadingPassage before showing it.
+export const generateReadingPassage = async (words: string[]): Promise<unknown> => {
+  const ai = getClient();
+
+  const prompt = `
+    Write an original passage in the style of a GRE reading comprehension text for a student learning these words: ${words.map(w => `"${w}"`).join(', ')}.
+
+    Rules:
+    - 2 to 3 paragraphs, 250-400 words in total, on a topic from the sciences, humanities or social sciences.
+    - Use each of the student's words at least once, in a context that makes its meaning inferable. Inflected forms are fine.
+    - Write in an academic register with varied sentence structure, like an excerpt from a serious magazine or journal.
+    - Separate paragraphs with a blank line. Give the passage a short title.
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      title: { type: Type.STRING },
+      passage: { type: Type.STRING },
+    },
+    required: ["title", "passage"],
+  };
+
+  return retry(async () => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+    return parseJSONResponse(text);
+  });
+};
+
+// Looks up a real article and writes a GRE-length adaptation of it, since the article itself
+// can't be fetched from the browser. Returns the raw parsed reply; see validateReadingPassage.
+export const adaptArticlePassage = async (article: ReadingArticle): Promise<unknown> => {
+  const ai = getClient();
+
+  const prompt = `
+    Find this article: "${article.title}" (${article.source}), ${article.url}
+
+    Write a faithful adaptation of its central argument as a GRE reading comprehension passage:
+    - 2 to 3 paragraphs, 300-450 words, keeping the author's claims, evidence and any counterpoints.
+    - Academic register with varied sentence structure. Do not add claims the article doesn't make.
+    - Separate paragraphs with a blank line.
+
+    Output raw JSON with keys "title" and "passage". Do NOT use Markdown formatting.
+  `;
+
+  return retry(async () => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+    return parseJSONResponse(text);
+  });
+};
+
+// GRE reading comprehension questions for a passage.
+// Returns the raw parsed reply; run it through validateRcQuestions before showing any of it.
+export const generateComprehensionQuestions = async (title: string, passage: string): Promise<unknown> => {
+  const ai = getClient();
+
+  const prompt = `
+    Write GRE reading comprehension questions for this passage.
+
+    Title: ${title}
+    Passage:
+    ${passage}
+
+    Write exactly 5 questions:
+    - 1 "main-idea" question: 5 options, exactly 1 correct.
+    - 2 "inference" questions. One has 5 options and exactly 1 correct. The other is "select all that apply": 3 options, 1 to 3 correct, and the prompt says so.
+    - 1 "vocab-in-context" question about a word or phrase used in the passage (quote it): 5 options, exactly 1 correct.
+    - 1 "select-in-passage" question ("Select the sentence that..."): no options, and "answerSentence" is copied word for word from the passage.
+
+    Rules:
+    - "correct" holds zero-based indexes into "options"; leave it empty for select-in-passage.
+    - Wrong options should be tempting in the ways real GRE distractors are: too broad, too extreme, half right, or true but unstated.
+    - The explanation points to the lines that support the answer and says why the best distractor fails, in 2-3 sentences.
+  `;
+
+  const schema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+      questions: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            type: { type: Type.STRING, enum: ["main-idea", "inference", "vocab-in-context", "select-in-passage"] },
+            prompt: { type: Type.STRING },
+            options: { type: Type.ARRAY, items: { type: Type.STRING } },
+            correct: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+            answerSentence: { type: Type.STRING },
+            explanation: { type: Type.STRING },
+          },
+          required: ["type", "prompt", "explanation"],
+        },
+      },
+    },
+    required: ["questions"],
+  };
+
+  return retry(async () => {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+      },
+    });
+
+    const text = response.text;
+    if (!text) throw new Error("No response from AI");
+    return parseJSONResponse(text);
+  });
+};
+
+// Returns the raw parsed list; run it through validateReadingArticles. Throws when nothing usable
+// came back, so callers can fall back to a cached copy.
+export const getDailyReadings = async (): Promise<unknown> => {
   const ai = getClient();
   
   const prompt = `
@@ -176,7 +433,7 @@ export const getDailyReadings = async (): Promise<ReadingArticle[]> => {
     Do NOT use Markdown formatting (no \`\`\`json blocks). Just return the raw JSON string.
   `;
 
-  try {
+  return retry(async () => {
     const response = await ai.models.generateContent({
       model: "gemini-2.5-flash",
       contents: prompt,
@@ -185,24 +442,12 @@ export const getDailyReadings = async (): Promise<ReadingArticle[]> => {
       },
     });
 
-    let text = response.text || "[]";
+    let text = response.text;
+    if (!text) throw new Error("No response from AI");
     text = text.replace(/```json/g, '').replace(/```/g, '').trim();
     const start = text.indexOf('[');
     const end = text.lastIndexOf(']');
-    if (start !== -1 && end !== -1) {
-        text = text.substring(start, end + 1);
-    }
-
-    return JSON.parse(text) as ReadingArticle[];
-  } catch (error) {
-    console.error("Error fetching readings:", error);
-    return [
-        {
-            title: "Error fetching recent articles",
-            summary: "We couldn't retrieve the latest articles right now. Please try again later.",
-            source: "System",
-            url: "https://www.aldaily.com/"
-        }
-    ];
-  }
+    if (start === -1 || end === -1) throw new Error("No article list in response");
+    return JSON.parse(text.substring(start, end + 1));
+  });
 };
\ No newline at end of file
@@ -9,6 +9,53 @@ export interface WordContext {
   definition: string;
 }
 
+// Per-word state for the SM-2 scheduler (intervals in days)
+export interface Sm2State {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+}
+
+// Per-word state for the FSRS-style scheduler
+export interface FsrsState {
+  stability: number; // Days until recall probability drops to 90%
+  difficulty: number; // 1 (easy) .. 10 (hard)
+}
+
+export type SchedulerId = 'leitner' | 'sm2' | 'fsrs';
+
+// Four-level recall grading, from forgotten to effortless
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewAnswer {
+  grade: ReviewGrade;
+  responseMs: number; // Time from revealing the answer to grading it
+}
+
+// Forward cards show the word and ask for the meaning; reverse cards show the meaning and ask for the word
+export type CardDirection = 'forward' | 'reverse';
+
+// A graded answer for a specific word, e.g. one of several tested by a practice item
+export interface WordReview {
+  wordId: string;
+  answer: ReviewAnswer;
+  direction?: CardDirection; // Defaults to forward
+  learningStep?: boolean; // A repeat inside a session's learning steps: logged, but the schedule stays as it is
+}
+
+// One row of the review history log, written for every graded answer
+export interface ReviewLogEntry {
+  id?: number; // Auto-incremented by IndexedDB
+  wordId: string;
+  timestamp: number;
+  grade: ReviewGrade;
+  boxBefore: number;
+  boxAfter: number;
+  responseMs: number;
+  direction?: CardDirection; // Missing on entries written before reverse cards existed
+  learningStep?: boolean; // Repeat inside a session's learning steps, not a scheduled review
+}
+
 export interface WordData {
   id: string;
   word: string;
@@ -19,12 +66,97 @@ export interface WordData {
   aiMnemonic: string;
   userMnemonic?: string;
   aiImageUrl?: string; 
+  detailsIncomplete?: boolean; // Last lookup came back partial or malformed; refetch when possible
   mastered: boolean;
   isCustom?: boolean; // New flag: true if user added this word manually (even if duplicate)
   lastReview?: number;
   // SRS Fields
   leitnerBox: number; // 0 = New, 1..5 = Review Intervals
   nextReviewDate: number; // Timestamp
+  lastResponseMs?: number;
+  lapses?: number; // Times the forward card was forgotten after it had been learned
+  sm2?: Sm2State;
+  fsrs?: FsrsState;
+  reverse?: ReviewState; // Scheduling for the definition-to-word direction, kept apart from the fields above
+}
+
+// The subset of WordData a scheduler reads and writes
+export type ReviewState = Pick<WordData, 'leitnerBox' | 'nextReviewDate' | 'mastered' | 'lastReview' | 'sm2' | 'fsrs'>;
+
+export type DictionaryProviderId = 'gemini' | 'local' | 'mock';
+
+export type PracticeItemType = 'text-completion' | 'sentence-equivalence';
+
+export interface PracticeBlank {
+  options: string[];
+  correct: number[]; // Indexes into options: one for Text Completion, two for Sentence Equivalence
+  wordIds: string[]; // Library words among the correct options; these get the scheduler feedback
+}
+
+// A GRE-style item. Blanks are marked [1], [2], [3] in the passage.
+export interface PracticeItem {
+  type: PracticeItemType;
+  passage: string;
+  blanks: PracticeBlank[];
+  explanation: string;
+}
+
+export type EnrichmentJobStatus = 'queued' | 'running' | 'failed' | 'done';
+
+// One word waiting for (or done with) a dictionary lookup; persisted so the queue survives reloads
+export interface EnrichmentJob {
+  wordId: string;
+  status: EnrichmentJobStatus;
+  attempts: number;
+  lastError?: string;
+  queuedAt: number; // When it (re)entered the queue; jobs run oldest first
+  updatedAt: number;
+}
+
+export type WordClusterSource = 'synonyms' | 'ai';
+
+// Library words that share a meaning, studied together the way Greg Mat groups are
+export interface WordCluster {
+  id: string;
+  label: string;
+  wordIds: string[];
+  source: WordClusterSource;
+}
+
+export type ReadingPassageSource = 'pasted' | 'generated' | 'article';
+
+// Text read inside the app, with library words highlighted
+export interface ReadingPassage {
+  id: string;
+  title: string;
+  text: string; // Paragraphs separated by blank lines
+  source: ReadingPassageSource;
+  createdAt: number;
+  targetWordIds?: string[]; // Due words a generated passage was written around
+  url?: string; // The article an 'article' passage was adapted from
+  questions?: RcQuestion[]; // Generated once, then reused for retakes
+}
+
+export type RcQuestionType = 'main-idea' | 'inference' | 'vocab-in-context' | 'select-in-passage';
+
+// A GRE reading comprehension question. Select-in-passage questions have no options; their
+// answer is a sentence index (see splitSentences in utils/comprehension).
+export interface RcQuestion {
+  type: RcQuestionType;
+  prompt: string;
+  options: string[];
+  correct: number[]; // More than one only for "select all that apply"
+  explanation: string;
+}
+
+// One finished run through a passage's question set
+export interface RcAttempt {
+  passageId: string;
+  url?: string; // Lets history follow an article even if its passage is re-adapted
+  score: number;
+  total: number;
+  durationMs: number;
+  completedAt: number;
 }
 
 export interface ReadingArticle {
@@ -34,23 +166,47 @@ export interface ReadingArticle {
   source: string;
 }
 
+// One day's Daily Picks, cached so the Reading tab works offline and keeps a history
+export interface DailyReadings {
+  date: string; // Local YYYY-MM-DD
+  fetchedAt: number;
+  articles: ReadingArticle[];
+  readUrls: string[]; // Articles opened or marked read
+}
+
 export enum ViewState {
   DASHBOARD = 'DASHBOARD',
   STUDY = 'STUDY',
+  QUIZ = 'QUIZ',
+  PRACTICE = 'PRACTICE',
+  GROUPS = 'GROUPS',
   READING = 'READING',
+  STATS = 'STATS',
   LIBRARY = 'LIBRARY',
   ADD_WORD = 'ADD_WORD',
   SETTINGS = 'SETTINGS',
 }
 
+// Subsets of the library, used by the Library view's filter chips and when exporting
+export type LibraryFilter = 'all' | 'mastered' | 'learning' | 'new' | 'custom';
+
 export interface AppState {
   words: WordData[];
   streak: number;
-  lastLoginDate: string; // YYYY-MM-DD
+  lastLoginDate: string; // Study day last opened, YYYY-MM-DD (see utils/studyDay)
+  dayStartHour: number; // Local hour a study day begins; anything earlier counts toward the day before
+  streakFreezes: number; // Tokens that each cover one missed day without breaking the streak
   dailyGoal: number; // number of cards to review
+  newCardsPerDay: number; // Limit on words studied for the first time each day
+  maxReviewsPerDay: number; // Limit on answers for words already started
+  reviewsPerNewWord: number; // Today's session shows one new word after this many reviews
   dailyProgress: number; // Total cards reviewed today
   dailyUniqueProgress: number; // New cards (Box 0) learned today
   darkMode: boolean;
+  scheduler: SchedulerId;
+  keyboardShortcuts: boolean;
+  dictionaryProviders: DictionaryProviderId[]; // Enabled sources, tried in this order
+  enrichmentPaused: boolean;
 }
 
 // Consolidated list of High-Frequency GRE Words (Barron's 333 + Greg Mat Common Groups)
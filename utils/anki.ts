@@ -0,0 +1,219 @@
+import { WordData } from '../types';
+import { readZip, buildZip } from './zip';
+import { readSqliteTables, buildSqlite, SqlRow } from './sqlite';
+import { DeckTable } from './deckFormats';
+import { intervalForBox, SM2_DEFAULT_EASE } from './srs';
+
+// Anki packages (.apkg) are zip files around a SQLite collection. We read the legacy collection
+// formats (collection.anki2 / .anki21) and write collection.anki2, which every Anki version imports.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FIELD_SEPARATOR = '\x1f';
+const MASTERED_TAG = 'mastered';
+
+// Card scheduling is appended to the note's fields as extra columns, named so the import mapping recognises them
+const SCHEDULING_HEADERS = ['Due', 'Interval', 'Ease', 'Lapses', 'Last Review', 'Mastered'];
+
+const ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const htmlToText = (html: string): string => html
+  .replace(/<br\s*\/?>|<\/(div|p|li)>/gi, '\n')
+  .replace(/<[^>]*>/g, '')
+  .replace(/\[sound:[^\]]*\]/g, '')
+  .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? entity;
+    return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+  })
+  .replace(/[ \t]*\n[ \t\n]*/g, '\n')
+  .trim();
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const isoDate = (timestamp: number): string => new Date(timestamp).toISOString();
+
+// Due, Interval, Ease, Lapses, Last Review, Mastered for a note's first card
+const cardSchedule = (card: SqlRow | undefined, crtMs: number, tags: string): string[] => {
+  const mastered = new RegExp(`(^|\\s)${MASTERED_TAG}(\\s|$)`, 'i').test(tags) ? 'yes' : '';
+  if (!card || card.type === 0) return ['', '', '', '', '', mastered];
+
+  // Learning steps are due at a time (epoch seconds); review cards on a day counted from the collection's creation
+  const due = Number(card.due);
+  const dueMs = due > 1e9 ? due * 1000 : crtMs + due * DAY_MS;
+  const interval = Number(card.ivl) > 0 ? Number(card.ivl) : 0;
+  return [
+    isoDate(dueMs),
+    interval ? String(interval) : '',
+    Number(card.factor) > 0 ? String(Number(card.factor) / 1000) : '',
+    String(card.lapses || 0),
+    interval ? isoDate(dueMs - interval * DAY_MS) : '',
+    mastered
+  ];
+};
+
+// Notes as a table: one column per field of the most used note type, then the scheduling columns
+export const readApkg = async (bytes: Uint8Array): Promise<DeckTable> => {
+  const entries = await readZip(bytes);
+  // Newer Anki writes a placeholder collection.anki2 next to the real, zstd-compressed collection.anki21b
+  const collection = entries.get('collection.anki21') || (entries.has('collection.anki21b') ? undefined : entries.get('collection.anki2'));
+  if (!collection) {
+    throw new Error(entries.has('collection.anki21b')
+      ? 'This deck uses the newest Anki package format. Export it again from Anki with "Support older Anki versions" ticked.'
+      : 'No Anki collection found in this file.');
+  }
+
+  const tables = readSqliteTables(collection, ['col', 'notes', 'cards', 'fields']);
+  const col = tables.col?.[0];
+  const notes = tables.notes || [];
+  if (!col) throw new Error('The Anki collection is damaged.');
+  const crtMs = Number(col.crt) * 1000;
+
+  // Field names live in the col row's JSON on older schemas and in a table of their own on newer ones
+  const fieldNames = new Map<number, string[]>();
+  try {
+    Object.values(JSON.parse((col.models as string) || '{}') as Record<string, { id: number; flds: { name: string; ord: number }[] }>)
+      .forEach(model => fieldNames.set(Number(model.id), [...model.flds].sort((a, b) => a.ord - b.ord).map(f => f.name)));
+  } catch {
+    // Unreadable note types just leave generic column names
+  }
+  (tables.fields || []).forEach(field => {
+    const names = fieldNames.get(Number(field.ntid)) || [];
+    names[Number(field.ord)] = String(field.name);
+    fieldNames.set(Number(field.ntid), names);
+  });
+
+  const firstCards = new Map<number, SqlRow>();
+  (tables.cards || []).forEach(card => {
+    const current = firstCards.get(Number(card.nid));
+    if (!current || Number(card.ord) < Number(current.ord)) firstCards.set(Number(card.nid), card);
+  });
+
+  const typeCounts = new Map<number, number>();
+  notes.forEach(note => typeCounts.set(Number(note.mid), (typeCounts.get(Number(note.mid)) || 0) + 1));
+  const mainType = [...typeCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  const names = (mainType !== undefined && fieldNames.get(mainType)) || [];
+  const noteFields = notes.map(note => String(note.flds ?? '').split(FIELD_SEPARATOR).map(htmlToText));
+  const width = Math.max(names.length, ...noteFields.map(f => f.length));
+
+  return {
+    headers: [...Array.from({ length: width }, (_, i) => names[i] || `Field ${i + 1}`), ...SCHEDULING_HEADERS],
+    rows: notes.map((note, i) => [
+      ...Array.from({ length: width }, (_, f) => noteFields[i][f] || ''),
+      ...cardSchedule(firstCards.get(Number(note.id)), crtMs, String(note.tags ?? ''))
+    ])
+  };
+};
+
+// Fixed ids so exporting again updates the same note type and deck in Anki rather than adding copies
+const MODEL_ID = 1700000000000;
+const DECK_ID = 1700000000001;
+const NOTE_FIELDS = ['Word', 'Definition', 'Examples', 'Synonyms', 'Etymology', 'Mnemonic'];
+
+const CARD_FRONT = '<div class="word">{{Word}}</div>';
+const CARD_BACK = `{{FrontSide}}
+<hr id="answer">
+<div class="definition">{{Definition}}</div>
+{{#Examples}}<div class="examples">{{Examples}}</div>{{/Examples}}
+{{#Synonyms}}<div class="meta">Synonyms: {{Synonyms}}</div>{{/Synonyms}}
+{{#Etymology}}<div class="meta">{{Etymology}}</div>{{/Etymology}}
+{{#Mnemonic}}<div class="mnemonic">{{Mnemonic}}</div>{{/Mnemonic}}`;
+const CARD_CSS = `.card { font-family: Georgia, serif; font-size: 20px; text-align: center; color: #1e293b; background: #fff; }
+.word { font-size: 36px; font-weight: bold; }
+.definition { margin: 12px 0; }
+.examples { font-style: italic; font-size: 16px; color: #475569; }
+.meta { font-size: 14px; color: #64748b; margin-top: 8px; }
+.mnemonic { font-size: 15px; margin-top: 12px; padding: 8px; background: #eef2ff; border-radius: 8px; }`;
+
+const SCHEMA = {
+  col: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)',
+  notes: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+  cards: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)',
+  revlog: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)',
+  graves: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+};
+
+const deckJson = (id: number, name: string, mod: number) => ({
+  id, name, mod, usn: 0, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0], extendNew: 0, extendRev: 0
+});
+
+const collectionRow = (crt: number, mod: number, deckName: string, nextPos: number) => {
+  const models = {
+    [MODEL_ID]: {
+      id: MODEL_ID, name: 'GRE Vocab Master', type: 0, mod, usn: 0, sortf: 0, did: DECK_ID,
+      flds: NOTE_FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+      tmpls: [{ name: 'Word to Meaning', ord: 0, qfmt: CARD_FRONT, afmt: CARD_BACK, bqfmt: '', bafmt: '', did: null }],
+      css: CARD_CSS, latexPre: '', latexPost: '', latexsvg: false, tags: [], vers: [], req: [[0, 'any', [0]]]
+    }
+  };
+  const decks = { 1: deckJson(1, 'Default', mod), [DECK_ID]: deckJson(DECK_ID, deckName, mod) };
+  const dconf = {
+    1: {
+      id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+      new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+      rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+      lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 }
+    }
+  };
+  const conf = {
+    activeDecks: [DECK_ID], curDeck: DECK_ID, curModel: MODEL_ID, nextPos, newSpread: 0, collapseTime: 1200,
+    timeLim: 0, estTimes: true, dueCounts: true, sortType: 'noteFld', sortBackwards: false, addToCur: true
+  };
+  return [1, crt, mod * 1000, mod * 1000, 11, 0, 0, 0, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(dconf), '{}'];
+};
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the first field's text
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text)));
+  return ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) >>> 0;
+};
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// One note per word, tagged "mastered" where it applies. Mastered words come in suspended so Anki
+// doesn't schedule them; words not started yet are new cards in library order.
+export const buildApkg = async (words: WordData[], deckName: string, now: number = Date.now()): Promise<Uint8Array> => {
+  const started = (w: WordData) => w.leitnerBox > 0 || w.mastered;
+  const crtMs = startOfDay(Math.min(now, ...words.filter(started).map(w => w.nextReviewDate || now)));
+  const mod = Math.floor(now / 1000);
+
+  const notes: (number | string)[][] = [];
+  const cards: (number | string)[][] = [];
+  for (const [i, word] of words.entries()) {
+    const id = now + i;
+    const mnemonic = word.userMnemonic || word.aiMnemonic;
+    const fields = [
+      escapeHtml(word.word),
+      word.definitions.map(d => escapeHtml(d.contextType && d.contextType !== 'General' ? `(${d.contextType}) ${d.definition}` : d.definition)).join('<br>'),
+      word.examples.map(e => escapeHtml(e.text)).join('<br>'),
+      escapeHtml(word.synonyms.join(', ')),
+      escapeHtml(word.etymology),
+      escapeHtml(mnemonic || '')
+    ];
+    const tags = ` gre-vocab-master ${word.mastered ? `${MASTERED_TAG} ` : ''}`;
+    notes.push([id, word.id, MODEL_ID, mod, 0, tags, fields.join(FIELD_SEPARATOR), word.word, await fieldChecksum(word.word), 0, '']);
+
+    if (!started(word)) {
+      cards.push([id, id, DECK_ID, 0, mod, 0, 0, 0, i + 1, 0, 0, 0, word.lapses || 0, 0, 0, 0, 0, '']);
+      continue;
+    }
+    const interval = Math.max(1, Math.round(word.sm2?.interval ?? word.fsrs?.stability ?? intervalForBox(word.leitnerBox)));
+    const due = Math.round((startOfDay(word.nextReviewDate || now) - crtMs) / DAY_MS);
+    const factor = Math.round((word.sm2?.easeFactor ?? SM2_DEFAULT_EASE) * 1000);
+    const reps = word.sm2?.repetitions ?? word.leitnerBox;
+    cards.push([id, id, DECK_ID, 0, mod, 0, 2, word.mastered ? -1 : 2, due, interval, factor, reps, word.lapses || 0, 0, 0, 0, 0, '']);
+  }
+
+  const database = buildSqlite([
+    { name: 'col', sql: SCHEMA.col, rows: [collectionRow(Math.floor(crtMs / 1000), mod, deckName, words.length + 1)] },
+    { name: 'notes', sql: SCHEMA.notes, rows: notes },
+    { name: 'cards', sql: SCHEMA.cards, rows: cards },
+    { name: 'revlog', sql: SCHEMA.revlog, rows: [] },
+    { name: 'graves', sql: SCHEMA.graves, rows: [] },
+  ]);
+  return buildZip([['collection.anki2', database], ['media', new TextEncoder().encode('{}')]]);
+};
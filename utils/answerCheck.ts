@@ -0,0 +1,81 @@
+import { ReviewGrade } from '../types';
+
+// How a typed answer compares with the expected word
+export type AnswerVerdict = 'exact' | 'inflection' | 'close' | 'wrong';
+
+export interface AnswerCheck {
+  verdict: AnswerVerdict;
+  distance: number; // Edit distance to the nearest accepted form
+}
+
+// Classic two-row dynamic programming edit distance (insert, delete, substitute)
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Lowercase letters only, accents folded ("Naïve " -> "naive")
+const normalize = (text: string): string => {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z]/g, '');
+};
+
+// [ending, replacement], longest first so "-ingly" wins over "-ly"
+const SUFFIXES: [string, string][] = [
+  ['ically', 'ic'], ['ingly', ''], ['edly', ''], ['ings', ''], ['ing', ''],
+  ['ied', 'y'], ['ies', 'y'], ['ed', ''], ['es', ''], ['ly', ''], ['s', '']
+];
+
+// Rough stem for matching inflected forms: "enervated", "enervates" and "enervating" all become "enervat",
+// "mollified" becomes "mollify", "abetted" becomes "abet". Only ever compared against another stem.
+export const stem = (word: string): string => {
+  let result = normalize(word);
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (result.length - suffix.length >= 3 && result.endsWith(suffix)) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+  if (/([^aeiouls])\1$/.test(result)) result = result.slice(0, -1); // Doubled consonant before -ed/-ing
+  return result.replace(/e$/, '');
+};
+
+// Typos allowed before an answer stops counting as a near miss
+const allowedTypos = (length: number): number => (length <= 6 ? 1 : 2);
+
+// `confusables` are other library words; landing exactly on one of them is a wrong answer, not a typo
+// (e.g. "ingenious" for "ingenuous").
+export const checkTypedAnswer = (input: string, expected: string, confusables: string[] = []): AnswerCheck => {
+  const typed = normalize(input);
+  const target = normalize(expected);
+  if (!typed) return { verdict: 'wrong', distance: target.length };
+  if (typed === target) return { verdict: 'exact', distance: 0 };
+
+  const typedStem = stem(typed);
+  const targetStem = stem(target);
+  if (typedStem === targetStem) return { verdict: 'inflection', distance: 0 };
+
+  const isOtherWord = confusables.some(w => {
+    const other = normalize(w);
+    return other !== target && (other === typed || stem(other) === typedStem);
+  });
+  const distance = Math.min(levenshtein(typed, target), levenshtein(typedStem, targetStem));
+  if (!isOtherWord && distance <= allowedTypos(target.length)) return { verdict: 'close', distance };
+  return { verdict: 'wrong', distance };
+};
+
+// A near miss still shows recall, just not a clean one
+export const gradeForVerdict = (verdict: AnswerVerdict): ReviewGrade => {
+  if (verdict === 'exact' || verdict === 'inflection') return 'good';
+  return verdict === 'close' ? 'hard' : 'again';
+};
@@ -0,0 +1,149 @@
+import { WordData } from '../types';
+
+// Merging a backup (e.g. from another device) into the library instead of replacing it.
+// Words match by normalized text. Progress follows whichever copy was reviewed most recently;
+// content only fills gaps, except mnemonics and images, where the better of the two is kept.
+
+export type MergeOutcome = 'added' | 'updated' | 'conflicting';
+
+export interface MergeEntry {
+  outcome: MergeOutcome;
+  word: WordData; // The word as it will be after merging
+  previous?: WordData; // This device's copy; missing for added words
+  notes: string[]; // What the merge takes from the backup and how conflicts were settled, for the preview
+}
+
+export interface BackupMerge {
+  words: WordData[]; // This device's order, with added words at the end
+  entries: MergeEntry[];
+  unchangedCount: number;
+}
+
+const SCHEDULING_KEYS = ['leitnerBox', 'nextReviewDate', 'mastered', 'lastReview', 'lastResponseMs', 'lapses', 'sm2', 'fsrs'] as const;
+
+const pickScheduling = (word: WordData): Pick<WordData, typeof SCHEDULING_KEYS[number]> => ({
+  leitnerBox: word.leitnerBox,
+  nextReviewDate: word.nextReviewDate,
+  mastered: word.mastered,
+  lastReview: word.lastReview,
+  lastResponseMs: word.lastResponseMs,
+  lapses: word.lapses,
+  sm2: word.sm2,
+  fsrs: word.fsrs
+});
+
+export const normalizeWordText = (word: string): string => word.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const formatDay = (timestamp: number): string => new Date(timestamp).toLocaleDateString();
+
+// Images generated in the app are stored as data URLs and work offline; prefer those over links
+const isBetterImage = (candidate: string | undefined, current: string | undefined): boolean => {
+  if (!candidate || candidate === current) return false;
+  return !current || (candidate.startsWith('data:') && !current.startsWith('data:'));
+};
+
+const mergeWord = (current: WordData, incoming: WordData): MergeEntry | null => {
+  const merged: WordData = { ...current };
+  const notes: string[] = [];
+  let conflicting = false;
+
+  // Progress moves as a whole so box, due date and scheduler state stay consistent
+  const currentReviewed = current.lastReview || 0;
+  const incomingReviewed = incoming.lastReview || 0;
+  if (SCHEDULING_KEYS.some(key => !sameValue(current[key], incoming[key]))) {
+    const studiedOnBoth = currentReviewed > 0 && incomingReviewed > 0 && currentReviewed !== incomingReviewed;
+    if (incomingReviewed > currentReviewed) {
+      Object.assign(merged, pickScheduling(incoming));
+      notes.push(studiedOnBoth
+        ? `Studied on both; kept the backup's review from ${formatDay(incomingReviewed)}`
+        : `Progress from the backup (reviewed ${formatDay(incomingReviewed)})`);
+    } else if (studiedOnBoth) {
+      notes.push(`Studied on both; kept this device's review from ${formatDay(currentReviewed)}`);
+    }
+    conflicting = studiedOnBoth;
+  }
+  if (incoming.reverse && (incoming.reverse.lastReview || 0) > (current.reverse?.lastReview || 0)) {
+    merged.reverse = incoming.reverse;
+    notes.push('Reverse-card progress from the backup');
+  }
+
+  // Details only fill gaps, or replace a lookup that came back partial
+  const needsDetails = current.definitions.length === 0 || (current.detailsIncomplete && !incoming.detailsIncomplete);
+  if (needsDetails && incoming.definitions.length > 0) {
+    merged.definitions = incoming.definitions;
+    merged.examples = incoming.examples.length > 0 ? incoming.examples : current.examples;
+    merged.synonyms = incoming.synonyms.length > 0 ? incoming.synonyms : current.synonyms;
+    merged.etymology = incoming.etymology || current.etymology;
+    merged.detailsIncomplete = incoming.detailsIncomplete;
+    notes.push('Definitions from the backup');
+  }
+
+  // The learner's own mnemonic beats none; two different ones keep the more detailed, and are flagged
+  const currentMnemonic = (current.userMnemonic || '').trim();
+  const incomingMnemonic = (incoming.userMnemonic || '').trim();
+  if (incomingMnemonic && incomingMnemonic !== currentMnemonic) {
+    if (!currentMnemonic) {
+      merged.userMnemonic = incoming.userMnemonic;
+      notes.push('Your mnemonic from the backup');
+    } else {
+      conflicting = true;
+      const useIncoming = incomingMnemonic.length > currentMnemonic.length;
+      if (useIncoming) merged.userMnemonic = incoming.userMnemonic;
+      notes.push(`Two different mnemonics; kept the longer one from ${useIncoming ? 'the backup' : 'this device'}`);
+    }
+  }
+  if (!current.aiMnemonic.trim() && incoming.aiMnemonic.trim()) {
+    merged.aiMnemonic = incoming.aiMnemonic;
+    notes.push('AI mnemonic from the backup');
+  }
+  if (isBetterImage(incoming.aiImageUrl, current.aiImageUrl)) {
+    merged.aiImageUrl = incoming.aiImageUrl;
+    notes.push('Image from the backup');
+  }
+  if (incoming.isCustom && !current.isCustom) {
+    merged.isCustom = true;
+    notes.push('Added to your custom words');
+  }
+
+  if (notes.length === 0) return null;
+  return { outcome: conflicting ? 'conflicting' : 'updated', word: merged, previous: current, notes };
+};
+
+// Works out the merge without applying it, so it can be previewed first
+export const mergeBackup = (current: WordData[], incoming: WordData[]): BackupMerge => {
+  const words = [...current];
+  const indexByText = new Map(words.map((w, i) => [normalizeWordText(w.word), i]));
+  const usedIds = new Set(words.map(w => w.id));
+  const seen = new Set<string>();
+  const entries: MergeEntry[] = [];
+  let unchangedCount = 0;
+
+  incoming.forEach(word => {
+    // A word listed twice in the backup merges once
+    const key = normalizeWordText(word.word);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    const index = indexByText.get(key);
+    if (index === undefined) {
+      // Ids can clash across devices (custom ids are random, seed ids positional)
+      const id = usedIds.has(word.id) ? `custom-${Date.now()}-${Math.random().toString(36).substr(2, 5)}` : word.id;
+      const added = { ...word, id };
+      usedIds.add(id);
+      indexByText.set(key, words.length);
+      words.push(added);
+      entries.push({ outcome: 'added', word: added, notes: [] });
+      return;
+    }
+    const entry = mergeWord(words[index], word);
+    if (!entry) {
+      unchangedCount++;
+      return;
+    }
+    words[index] = entry.word;
+    entries.push(entry);
+  });
+
+  return { words, entries, unchangedCount };
+};
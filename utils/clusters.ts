@@ -0,0 +1,131 @@
+import { WordCluster, WordData } from '../types';
+
+// Big enough for a Greg Mat style group, small enough to study in one sitting
+export const MAX_CLUSTER_SIZE = 10;
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// How strongly two library words belong together: listing each other as synonyms counts most,
+// sharing synonyms with a third word counts once per shared synonym
+const linkStrength = (a: WordData, aSynonyms: Set<string>, b: WordData, bSynonyms: Set<string>): number => {
+  let strength = 0;
+  if (aSynonyms.has(normalize(b.word))) strength += 2;
+  if (bSynonyms.has(normalize(a.word))) strength += 2;
+  aSynonyms.forEach(s => { if (bSynonyms.has(s)) strength++; });
+  return strength;
+};
+
+// Groups library words whose synonym lists overlap. Strongest links are merged first and a group
+// stops growing at MAX_CLUSTER_SIZE, so a few well-connected words can't chain everything together.
+export const buildSynonymClusters = (words: WordData[]): WordCluster[] => {
+  const candidates = words.filter(w => w.synonyms.length > 0);
+  const synonymSets = candidates.map(w => new Set(w.synonyms.map(normalize)));
+
+  const links: { a: number; b: number; strength: number }[] = [];
+  for (let a = 0; a < candidates.length; a++) {
+    for (let b = a + 1; b < candidates.length; b++) {
+      if (normalize(candidates[a].word) === normalize(candidates[b].word)) continue;
+      const strength = linkStrength(candidates[a], synonymSets[a], candidates[b], synonymSets[b]);
+      if (strength >= 2) links.push({ a, b, strength });
+    }
+  }
+  links.sort((x, y) => y.strength - x.strength);
+
+  // Union-find with a size cap
+  const parent = candidates.map((_, i) => i);
+  const size = candidates.map(() => 1);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  links.forEach(({ a, b }) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB || size[rootA] + size[rootB] > MAX_CLUSTER_SIZE) return;
+    parent[rootB] = rootA;
+    size[rootA] += size[rootB];
+  });
+
+  const groups = new Map<number, number[]>();
+  candidates.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), i]);
+  });
+
+  return [...groups.values()]
+    .filter(members => members.length >= 2)
+    .map(members => {
+      // Name the group after the synonym most of its members share
+      const counts = new Map<string, number>();
+      members.forEach(i => synonymSets[i].forEach(s => counts.set(s, (counts.get(s) || 0) + 1)));
+      const [label] = [...counts.entries()].sort((x, y) => y[1] - x[1])[0] || [candidates[members[0]].word];
+      const wordIds = members.map(i => candidates[i].id);
+      return { id: `syn-${wordIds[0]}`, label, wordIds, source: 'synonyms' as const };
+    })
+    .sort((x, y) => y.wordIds.length - x.wordIds.length);
+};
+
+// --- Exercises ---
+
+export interface OddOneOutRound {
+  cluster: WordCluster;
+  options: WordData[];
+  oddIndex: number;
+}
+
+// Three words from one group plus one from another group that isn't a synonym of any of them.
+// Returns null when the clusters can't support a round.
+export const buildOddOneOutRound = (clusters: WordCluster[], words: WordData[], random: () => number = Math.random): OddOneOutRound | null => {
+  const byId = new Map(words.map(w => [w.id, w]));
+  const eligible = shuffle(clusters.filter(c => c.wordIds.length >= 3), random);
+  for (const cluster of eligible) {
+    const members = shuffle(cluster.wordIds, random).slice(0, 3).map(id => byId.get(id)).filter((w): w is WordData => !!w);
+    if (members.length < 3) continue;
+    const memberNames = new Set(members.map(w => normalize(w.word)));
+    const memberSynonyms = new Set(members.flatMap(w => w.synonyms.map(normalize)));
+    const odd = shuffle(clusters.filter(c => c.id !== cluster.id).flatMap(c => c.wordIds), random)
+      .map(id => byId.get(id))
+      .find(w => w && !memberNames.has(normalize(w.word)) && !memberSynonyms.has(normalize(w.word)) && !w.synonyms.some(s => memberNames.has(normalize(s))));
+    if (!odd) continue;
+    const options = shuffle([...members, odd], random);
+    return { cluster, options, oddIndex: options.indexOf(odd) };
+  }
+  return null;
+};
+
+export interface SortRound {
+  clusters: WordCluster[];
+  words: WordData[]; // Shuffled across the groups
+  answers: Record<string, string>; // wordId -> cluster id
+}
+
+// A handful of words from two or three groups, to be sorted back into them
+export const buildSortRound = (
+  clusters: WordCluster[],
+  words: WordData[],
+  groupCount = 3,
+  wordsPerGroup = 3,
+  random: () => number = Math.random
+): SortRound | null => {
+  const byId = new Map(words.map(w => [w.id, w]));
+  const chosen = shuffle(clusters.filter(c => c.wordIds.length >= 2), random).slice(0, groupCount);
+  if (chosen.length < 2) return null;
+
+  const answers: Record<string, string> = {};
+  const picked: WordData[] = [];
+  chosen.forEach(cluster => {
+    shuffle(cluster.wordIds, random).slice(0, wordsPerGroup).forEach(id => {
+      const word = byId.get(id);
+      if (!word || answers[id]) return;
+      answers[id] = cluster.id;
+      picked.push(word);
+    });
+  });
+  return { clusters: chosen, words: shuffle(picked, random), answers };
+};
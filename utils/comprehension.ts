@@ -0,0 +1,38 @@
+import { RcAttempt, RcQuestion } from '../types';
+
+// Roughly the GRE's pace for reading comprehension, reading time included
+export const SECONDS_PER_RC_QUESTION = 90;
+
+// Periods that don't end a sentence: titles, common Latin abbreviations and initials
+const ABBREVIATION = /(?:\b(?:Dr|Mr|Mrs|Ms|Prof|St|Jr|Sr|vs|etc|cf|al|e\.g|i\.e)|\b[A-Z])\.$/;
+
+// Splits a passage into sentences for select-in-passage questions. Paragraph breaks always end a sentence.
+export const splitSentences = (text: string): string[] => {
+  return text.split(/\n\s*\n/).flatMap(paragraph => {
+    const pieces = paragraph.replace(/\s+/g, ' ').trim().match(/[^.!?]+(?:[.!?]+["'”’)]*|$)/g) || [];
+    const sentences: string[] = [];
+    pieces.map(piece => piece.trim()).filter(Boolean).forEach(piece => {
+      const last = sentences.length - 1;
+      if (last >= 0 && ABBREVIATION.test(sentences[last])) sentences[last] += ` ${piece}`;
+      else sentences.push(piece);
+    });
+    return sentences;
+  });
+};
+
+// GRE scoring: a question only counts when the selection matches exactly
+export const isRcAnswerCorrect = (question: RcQuestion, selected: number[]): boolean => {
+  return selected.length === question.correct.length && selected.every(i => question.correct.includes(i));
+};
+
+// Every attempt at this passage or, for articles, at any passage adapted from the same URL
+export const getAttemptsFor = (attempts: RcAttempt[], passageId: string, url?: string): RcAttempt[] => {
+  return attempts
+    .filter(a => a.passageId === passageId || (url && a.url === url))
+    .sort((a, b) => b.completedAt - a.completedAt);
+};
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
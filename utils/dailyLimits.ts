@@ -0,0 +1,41 @@
+import { AppState, WordData } from '../types';
+
+// Per-day caps on introducing new words and on reviews. A new word is one never studied in the
+// forward direction (what dailyUniqueProgress counts); every other answer counts as a review.
+
+export interface DailyAllowance {
+  newCards: number;
+  reviews: number;
+}
+
+export const isNewCard = (word: WordData): boolean => word.leitnerBox === 0 && !word.mastered;
+
+export const getReviewsToday = (state: AppState): number => Math.max(0, state.dailyProgress - state.dailyUniqueProgress);
+
+// What's left of today's limits
+export const getDailyAllowance = (state: AppState): DailyAllowance => ({
+  newCards: Math.max(0, state.newCardsPerDay - state.dailyUniqueProgress),
+  reviews: Math.max(0, state.maxReviewsPerDay - getReviewsToday(state))
+});
+
+export interface LimitedSession {
+  words: WordData[];
+  heldBack: DailyAllowance; // Words left out, by kind
+}
+
+// Keeps the session's order, leaving words out once the allowance for their kind is used up
+export const limitSession = (words: WordData[], allowance: DailyAllowance): LimitedSession => {
+  const left = { ...allowance };
+  const heldBack: DailyAllowance = { newCards: 0, reviews: 0 };
+  const kept: WordData[] = [];
+  words.forEach(word => {
+    const kind: keyof DailyAllowance = isNewCard(word) ? 'newCards' : 'reviews';
+    if (left[kind] > 0) {
+      left[kind]--;
+      kept.push(word);
+    } else {
+      heldBack[kind]++;
+    }
+  });
+  return { words: kept, heldBack };
+};
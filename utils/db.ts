@@ -1,75 +1,512 @@
-import { AppState, INITIAL_WORDS_LIST, WordData } from '../types';
+import { AppState, DailyReadings, EnrichmentJob, INITIAL_WORDS_LIST, RcAttempt, ReadingPassage, ReviewLogEntry, WordCluster, WordData } from '../types';
+import { DEFAULT_DAY_START_HOUR } from './studyDay';
 
 const DB_NAME = 'VocabMasterDB';
-const DB_VERSION = 1;
-const STORE_NAME = 'appState';
+const DB_VERSION = 5;
+// v1/v2 kept the whole AppState under a single 'root' key here; only read during migration
+const LEGACY_STORE = 'appState';
+const REVIEW_LOG_STORE = 'reviewLog';
+const WORDS_STORE = 'words';
+const META_STORE = 'meta';
+const IMAGES_STORE = 'images';
+const ENRICHMENT_JOBS_STORE = 'enrichmentJobs';
+const DAILY_READINGS_STORE = 'dailyReadings';
+
+// Keys in the meta store
+const SETTINGS_KEY = 'settings';
+const WORD_ORDER_KEY = 'wordOrder';
+const WORD_GROUPS_KEY = 'wordGroups';
+const READING_PASSAGES_KEY = 'readingPassages';
+const RC_ATTEMPTS_KEY = 'rcAttempts';
+
+type StoredSettings = Omit<AppState, 'words'>;
+
+// IndexedDB can't index booleans, so `mastered` is stored as 0/1. Images live in their own store.
+type WordRecord = Omit<WordData, 'aiImageUrl' | 'mastered'> & { mastered: 0 | 1 };
 
 const DEFAULT_STATE: AppState = {
-  words: [], 
+  words: [],
   streak: 0,
   lastLoginDate: '',
+  dayStartHour: DEFAULT_DAY_START_HOUR,
+  streakFreezes: 0,
   dailyGoal: 20,
+  newCardsPerDay: 20,
+  maxReviewsPerDay: 200,
+  reviewsPerNewWord: 3,
   dailyProgress: 0,
   dailyUniqueProgress: 0,
-  darkMode: false
+  darkMode: false,
+  scheduler: 'leitner',
+  keyboardShortcuts: true,
+  dictionaryProviders: ['gemini', 'local'],
+  enrichmentPaused: false
 };
 
-export const initDB = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+// Backfills settings added after a saved state or backup file was written
+export const normalizeState = (state: Partial<AppState> & Pick<AppState, 'words'>): AppState => {
+  return { ...DEFAULT_STATE, ...state };
+};
+
+const toWordRecord = (word: WordData): WordRecord => {
+  const { aiImageUrl, mastered, ...rest } = word;
+  return { ...rest, mastered: mastered ? 1 : 0 };
+};
 
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
+const fromWordRecord = (record: WordRecord, image?: string): WordData => ({
+  ...record,
+  mastered: record.mastered === 1,
+  ...(image ? { aiImageUrl: image } : {})
+});
 
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
-      }
-    };
+const splitState = (state: AppState): { settings: StoredSettings; words: WordData[] } => {
+  const { words, ...settings } = state;
+  return { settings, words };
+};
+
+// Writes a full AppState into the normalized stores of an open transaction
+const writeFullState = (transaction: IDBTransaction, state: AppState) => {
+  const { settings, words } = splitState(state);
+  const wordStore = transaction.objectStore(WORDS_STORE);
+  const imageStore = transaction.objectStore(IMAGES_STORE);
+  const metaStore = transaction.objectStore(META_STORE);
+
+  wordStore.clear();
+  imageStore.clear();
+  words.forEach(w => {
+    wordStore.put(toWordRecord(w));
+    if (w.aiImageUrl) imageStore.put(w.aiImageUrl, w.id);
   });
+  metaStore.put(settings, SETTINGS_KEY);
+  metaStore.put(words.map(w => w.id), WORD_ORDER_KEY);
 };
 
-export const getStoredState = async (): Promise<AppState> => {
-  await initDB();
-  return new Promise((resolve, reject) => {
+const upgradeDB = (request: IDBOpenDBRequest, event: IDBVersionChangeEvent) => {
+  const db = request.result;
+  const transaction = request.transaction!;
+
+  // v2: append-only review history
+  if (!db.objectStoreNames.contains(REVIEW_LOG_STORE)) {
+    const logStore = db.createObjectStore(REVIEW_LOG_STORE, { keyPath: 'id', autoIncrement: true });
+    logStore.createIndex('wordId', 'wordId');
+    logStore.createIndex('timestamp', 'timestamp');
+  }
+
+  // v3: one record per word, settings/stats and images split out
+  if (!db.objectStoreNames.contains(WORDS_STORE)) {
+    const wordStore = db.createObjectStore(WORDS_STORE, { keyPath: 'id' });
+    wordStore.createIndex('nextReviewDate', 'nextReviewDate');
+    wordStore.createIndex('leitnerBox', 'leitnerBox');
+    wordStore.createIndex('mastered', 'mastered');
+  }
+  if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+  if (!db.objectStoreNames.contains(IMAGES_STORE)) db.createObjectStore(IMAGES_STORE);
+
+  // v4: persisted enrichment queue, one job per word
+  if (!db.objectStoreNames.contains(ENRICHMENT_JOBS_STORE)) {
+    const jobStore = db.createObjectStore(ENRICHMENT_JOBS_STORE, { keyPath: 'wordId' });
+    jobStore.createIndex('status', 'status');
+  }
+
+  // v5: Daily Picks cached per day
+  if (!db.objectStoreNames.contains(DAILY_READINGS_STORE)) {
+    db.createObjectStore(DAILY_READINGS_STORE, { keyPath: 'date' });
+  }
+
+  // Move the v1/v2 'root' blob into the new stores, then drop the old store
+  if (event.oldVersion > 0 && event.oldVersion < 3 && db.objectStoreNames.contains(LEGACY_STORE)) {
+    const getRequest = transaction.objectStore(LEGACY_STORE).get('root');
+    getRequest.onsuccess = () => {
+      const legacyState = getRequest.result as AppState | undefined;
+      if (legacyState) writeFullState(transaction, { ...DEFAULT_STATE, ...legacyState });
+      db.deleteObjectStore(LEGACY_STORE);
+    };
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
     request.onsuccess = () => {
       const db = request.result;
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      const getRequest = store.get('root');
-
-      getRequest.onsuccess = () => {
-        if (getRequest.result) {
-          resolve(getRequest.result);
-        } else {
-          // If fresh DB, seed with initial list immediately
-          const seededState = seedInitialData(DEFAULT_STATE);
-          saveStoredState(seededState); // Save it so next time it's there
-          resolve(seededState);
-        }
+      // Another tab is upgrading: let it, and reopen on next use
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
       };
-      getRequest.onerror = () => reject(getRequest.error);
+      resolve(db);
     };
-    request.onerror = () => reject(request.error);
+    request.onupgradeneeded = (event) => upgradeDB(request, event);
+  });
+  return dbPromise;
+};
+
+export const initDB = async (): Promise<void> => {
+  await openDB();
+};
+
+// Runs `fn` inside one transaction and resolves once it has committed
+const runTransaction = async <T = void>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  fn: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = fn(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    // Quota failures surface as an abort with the error on the transaction
+    transaction.onabort = () => reject(transaction.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+  if (!(error instanceof DOMException)) return false;
+  return error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+// Retry helper for transient failures. A full disk won't free itself, so quota errors fail fast.
+const withRetry = async <T>(fn: () => Promise<T>, retries = 2, delay = 200): Promise<T> => {
+  try {
+    return await fn();
+  } catch (error) {
+    if (retries <= 0 || isQuotaError(error)) throw error;
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return withRetry(fn, retries - 1, delay * 2);
+  }
+};
+
+// --- Save status ---
+// 'unsaved' means writes failed and are still held in memory for the next attempt
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'quota';
+
+let saveStatus: SaveStatus = 'saved';
+const statusListeners = new Set<(status: SaveStatus) => void>();
+
+const setSaveStatus = (status: SaveStatus) => {
+  if (status === saveStatus) return;
+  saveStatus = status;
+  statusListeners.forEach(listener => listener(status));
+};
+
+export const subscribeSaveStatus = (listener: (status: SaveStatus) => void): (() => void) => {
+  statusListeners.add(listener);
+  listener(saveStatus);
+  return () => { statusListeners.delete(listener); };
+};
+
+// --- Coalescing write queue ---
+// Writes are keyed by store + record key, so answering ten cards in a row
+// collapses into one transaction holding the latest copy of each record.
+
+interface PendingWrite {
+  store: string;
+  key?: IDBValidKey; // Only for stores with out-of-line keys, or deletes
+  value?: unknown;
+  remove?: boolean; // Delete the record at `key` instead of writing
+}
+
+const FLUSH_DELAY_MS = 250;
+const pendingWrites = new Map<string, PendingWrite>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushInProgress: Promise<void> | null = null;
+let flushWaiters: { resolve: () => void; reject: (error: unknown) => void }[] = [];
+let logSequence = 0;
+
+const flushPendingWrites = async (): Promise<void> => {
+  flushTimer = null;
+  // One transaction at a time; whatever arrived meanwhile goes in the next one
+  while (flushInProgress) {
+    await flushInProgress.catch(() => undefined);
+  }
+  if (pendingWrites.size === 0) {
+    flushWaiters.forEach(w => w.resolve());
+    flushWaiters = [];
+    return;
+  }
+
+  const batch = new Map(pendingWrites);
+  const waiters = flushWaiters;
+  flushWaiters = [];
+  setSaveStatus('saving');
+
+  flushInProgress = withRetry(() => {
+    const storeNames = [...new Set([...batch.values()].map(w => w.store))];
+    return runTransaction(storeNames, 'readwrite', transaction => {
+      batch.forEach(({ store, key, value, remove }) => {
+        const objectStore = transaction.objectStore(store);
+        if (remove) objectStore.delete(key!);
+        else if (key === undefined) objectStore.put(value);
+        else objectStore.put(value, key);
+      });
+    });
+  });
+
+  try {
+    await flushInProgress;
+    // Drop what was written, unless a newer copy was queued while we were busy
+    batch.forEach((write, id) => {
+      if (pendingWrites.get(id) === write) pendingWrites.delete(id);
+    });
+    waiters.forEach(w => w.resolve());
+    if (pendingWrites.size === 0) setSaveStatus('saved');
+    else scheduleFlush();
+  } catch (error) {
+    console.error("Failed to save changes", error);
+    setSaveStatus(isQuotaError(error) ? 'quota' : 'unsaved');
+    waiters.forEach(w => w.reject(error));
+  } finally {
+    flushInProgress = null;
+  }
+};
+
+const scheduleFlush = () => {
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = setTimeout(flushPendingWrites, FLUSH_DELAY_MS);
+};
+
+// Resolves once the writes have committed, rejects if they could not be saved
+const enqueueWrites = (writes: [string, PendingWrite][]): Promise<void> => {
+  writes.forEach(([id, write]) => pendingWrites.set(id, write));
+  if (saveStatus === 'saved') setSaveStatus('saving');
+  return new Promise((resolve, reject) => {
+    flushWaiters.push({ resolve, reject });
+    scheduleFlush();
+  });
+};
+
+// Tries everything still held in memory again, e.g. after freeing space
+export const retryPendingSaves = (): Promise<void> => {
+  if (pendingWrites.size === 0) {
+    setSaveStatus('saved');
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    flushWaiters.push({ resolve, reject });
+    flushPendingWrites();
   });
 };
 
+export const hasUnsavedChanges = (): boolean => pendingWrites.size > 0;
+
+export const getStoredState = async (): Promise<AppState> => {
+  const db = await openDB();
+  const loaded = await new Promise<{ settings?: StoredSettings; order?: string[]; records: WordRecord[]; images: Map<string, string> }>((resolve, reject) => {
+    const transaction = db.transaction([META_STORE, WORDS_STORE, IMAGES_STORE], 'readonly');
+    const settingsRequest = transaction.objectStore(META_STORE).get(SETTINGS_KEY);
+    const orderRequest = transaction.objectStore(META_STORE).get(WORD_ORDER_KEY);
+    const wordsRequest = transaction.objectStore(WORDS_STORE).getAll();
+    const images = new Map<string, string>();
+    const imageCursor = transaction.objectStore(IMAGES_STORE).openCursor();
+    imageCursor.onsuccess = () => {
+      const cursor = imageCursor.result;
+      if (!cursor) return;
+      images.set(cursor.key as string, cursor.value as string);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve({
+      settings: settingsRequest.result,
+      order: orderRequest.result,
+      records: wordsRequest.result as WordRecord[],
+      images
+    });
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  if (!loaded.settings && loaded.records.length === 0) {
+    // If fresh DB, seed with initial list immediately
+    const seededState = seedInitialData(DEFAULT_STATE);
+    await saveStoredState(seededState); // Save it so next time it's there
+    return seededState;
+  }
+
+  // Word order drives set composition; anything missing from the saved order goes last
+  const byId = new Map(loaded.records.map(r => [r.id, r]));
+  const orderedIds = (loaded.order || []).filter(id => byId.has(id));
+  const orderedSet = new Set(orderedIds);
+  loaded.records.forEach(r => { if (!orderedSet.has(r.id)) orderedIds.push(r.id); });
+  const words = orderedIds.map(id => fromWordRecord(byId.get(id)!, loaded.images.get(id)));
+
+  return normalizeState({ ...loaded.settings, words });
+};
+
+// Queued writes that a full replace makes obsolete
+const isReplacedByFullState = (id: string): boolean => {
+  return id.startsWith(`${WORDS_STORE}:`) || id.startsWith(`${IMAGES_STORE}:`)
+    || id === `${META_STORE}:${SETTINGS_KEY}` || id === `${META_STORE}:${WORD_ORDER_KEY}`;
+};
+
+// Replaces everything: words, images, order and settings. Use for seeding and restores.
 export const saveStoredState = async (state: AppState): Promise<void> => {
-  const request = indexedDB.open(DB_NAME, DB_VERSION);
-  request.onsuccess = () => {
-    const db = request.result;
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    store.put(state, 'root');
-  };
+  // Queued words, images, order and settings belong to the state being replaced. The review log,
+  // jobs, readings and the rest are unrelated and still get written.
+  [...pendingWrites.keys()].forEach(id => {
+    if (isReplacedByFullState(id)) pendingWrites.delete(id);
+  });
+  setSaveStatus('saving');
+  // A flush already under way could otherwise land old words on top of the replacement
+  while (flushInProgress) {
+    await flushInProgress.catch(() => undefined);
+  }
+  try {
+    await withRetry(() => runTransaction([WORDS_STORE, IMAGES_STORE, META_STORE], 'readwrite', transaction => {
+      writeFullState(transaction, state);
+    }));
+    if (pendingWrites.size === 0) setSaveStatus('saved');
+    else scheduleFlush();
+  } catch (error) {
+    setSaveStatus(isQuotaError(error) ? 'quota' : 'unsaved');
+    throw error;
+  }
+};
+
+// Per-record word writes. Images are not touched; see saveWordImage.
+export const saveWords = (words: WordData[]): Promise<void> => {
+  if (words.length === 0) return Promise.resolve();
+  return enqueueWrites(words.map(w => [`${WORDS_STORE}:${w.id}`, { store: WORDS_STORE, value: toWordRecord(w) }]));
+};
+
+export const saveSettings = (state: AppState): Promise<void> => {
+  const { settings } = splitState(state);
+  return enqueueWrites([[`${META_STORE}:${SETTINGS_KEY}`, { store: META_STORE, key: SETTINGS_KEY, value: settings }]]);
+};
+
+// Call whenever words are added, removed or reordered
+export const saveWordOrder = (words: WordData[]): Promise<void> => {
+  return enqueueWrites([[`${META_STORE}:${WORD_ORDER_KEY}`, { store: META_STORE, key: WORD_ORDER_KEY, value: words.map(w => w.id) }]]);
+};
+
+export const saveWordImage = (wordId: string, dataUrl: string): Promise<void> => {
+  return enqueueWrites([[`${IMAGES_STORE}:${wordId}`, { store: IMAGES_STORE, key: wordId, value: dataUrl }]]);
+};
+
+// Generated images are by far the largest records; dropping them is the way out of a full disk
+export const pruneGeneratedImages = async (): Promise<void> => {
+  [...pendingWrites.keys()].forEach(id => {
+    if (id.startsWith(`${IMAGES_STORE}:`)) pendingWrites.delete(id);
+  });
+  await runTransaction(IMAGES_STORE, 'readwrite', transaction => {
+    transaction.objectStore(IMAGES_STORE).clear();
+  });
+  await retryPendingSaves();
+};
+
+export const addReviewLogEntry = (entry: ReviewLogEntry): Promise<void> => {
+  // Log entries never coalesce; each one gets its own queue slot
+  return enqueueWrites([[`${REVIEW_LOG_STORE}:${Date.now()}-${logSequence++}`, { store: REVIEW_LOG_STORE, value: entry }]]);
+};
+
+// --- Enrichment jobs ---
+
+// Jobs still marked 'running' were cut off by a closed tab, so they go back in the queue
+export const getEnrichmentJobs = async (): Promise<EnrichmentJob[]> => {
+  const jobs = await runTransaction<EnrichmentJob[]>(ENRICHMENT_JOBS_STORE, 'readonly', transaction => {
+    return transaction.objectStore(ENRICHMENT_JOBS_STORE).getAll();
+  });
+  return jobs
+    .map(job => job.status === 'running' ? { ...job, status: 'queued' as const } : job)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const saveEnrichmentJobs = (jobs: EnrichmentJob[]): Promise<void> => {
+  if (jobs.length === 0) return Promise.resolve();
+  return enqueueWrites(jobs.map(job => [`${ENRICHMENT_JOBS_STORE}:${job.wordId}`, { store: ENRICHMENT_JOBS_STORE, value: job }]));
+};
+
+export const deleteEnrichmentJobs = (wordIds: string[]): Promise<void> => {
+  if (wordIds.length === 0) return Promise.resolve();
+  return enqueueWrites(wordIds.map(id => [`${ENRICHMENT_JOBS_STORE}:${id}`, { store: ENRICHMENT_JOBS_STORE, key: id, remove: true }]));
+};
+
+// --- AI word groups ---
+
+// Synonym clusters are cheap to rebuild, so only the AI grouping pass is stored
+export const getWordGroups = async (): Promise<WordCluster[]> => {
+  const groups = await runTransaction<WordCluster[] | undefined>(META_STORE, 'readonly', transaction => {
+    return transaction.objectStore(META_STORE).get(WORD_GROUPS_KEY);
+  });
+  return groups || [];
+};
+
+export const saveWordGroups = (groups: WordCluster[]): Promise<void> => {
+  return enqueueWrites([[`${META_STORE}:${WORD_GROUPS_KEY}`, { store: META_STORE, key: WORD_GROUPS_KEY, value: groups }]]);
+};
+
+// --- Reading passages ---
+
+export const getReadingPassages = async (): Promise<ReadingPassage[]> => {
+  const passages = await runTransaction<ReadingPassage[] | undefined>(META_STORE, 'readonly', transaction => {
+    return transaction.objectStore(META_STORE).get(READING_PASSAGES_KEY);
+  });
+  return passages || [];
+};
+
+// Saved as one list, newest first; callers keep it short
+export const saveReadingPassages = (passages: ReadingPassage[]): Promise<void> => {
+  return enqueueWrites([[`${META_STORE}:${READING_PASSAGES_KEY}`, { store: META_STORE, key: READING_PASSAGES_KEY, value: passages }]]);
+};
+
+export const getRcAttempts = async (): Promise<RcAttempt[]> => {
+  const attempts = await runTransaction<RcAttempt[] | undefined>(META_STORE, 'readonly', transaction => {
+    return transaction.objectStore(META_STORE).get(RC_ATTEMPTS_KEY);
+  });
+  return attempts || [];
+};
+
+export const saveRcAttempts = (attempts: RcAttempt[]): Promise<void> => {
+  return enqueueWrites([[`${META_STORE}:${RC_ATTEMPTS_KEY}`, { store: META_STORE, key: RC_ATTEMPTS_KEY, value: attempts }]]);
+};
+
+// --- Daily readings ---
+
+// Newest day first
+export const getDailyReadingsHistory = async (): Promise<DailyReadings[]> => {
+  const days = await runTransaction<DailyReadings[]>(DAILY_READINGS_STORE, 'readonly', transaction => {
+    return transaction.objectStore(DAILY_READINGS_STORE).getAll();
+  });
+  return days.sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const saveDailyReadings = (day: DailyReadings): Promise<void> => {
+  return enqueueWrites([[`${DAILY_READINGS_STORE}:${day.date}`, { store: DAILY_READINGS_STORE, value: day }]]);
+};
+
+export const deleteDailyReadings = (dates: string[]): Promise<void> => {
+  if (dates.length === 0) return Promise.resolve();
+  return enqueueWrites(dates.map(date => [`${DAILY_READINGS_STORE}:${date}`, { store: DAILY_READINGS_STORE, key: date, remove: true }]));
+};
+
+// Reads every entry matching an index range, oldest first
+const queryReviewLog = async (indexName: 'wordId' | 'timestamp', range: IDBKeyRange): Promise<ReviewLogEntry[]> => {
+  const entries = await runTransaction<ReviewLogEntry[]>(REVIEW_LOG_STORE, 'readonly', transaction => {
+    return transaction.objectStore(REVIEW_LOG_STORE).index(indexName).getAll(range);
+  });
+  return entries.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const getReviewLogForWord = (wordId: string): Promise<ReviewLogEntry[]> => {
+  return queryReviewLog('wordId', IDBKeyRange.only(wordId));
+};
+
+// Inclusive on both ends, timestamps in ms
+export const getReviewLogByDateRange = (from: number, to: number): Promise<ReviewLogEntry[]> => {
+  return queryReviewLog('timestamp', IDBKeyRange.bound(from, to));
 };
 
 // Helper to handle the seeding logic centrally
 const seedInitialData = (state: AppState): AppState => {
    const existingWordSet = new Set(state.words.map(w => w.word.toLowerCase()));
-   
+
    // Randomize the initial list using Fisher-Yates shuffle
    const shuffledList = [...INITIAL_WORDS_LIST];
    for (let i = shuffledList.length - 1; i > 0; i--) {
@@ -78,7 +515,7 @@ const seedInitialData = (state: AppState): AppState => {
    }
 
    const newWordsToAdd = shuffledList.filter(w => !existingWordSet.has(w.toLowerCase()));
-   
+
    if (newWordsToAdd.length === 0) return state;
 
    const additionalWords: WordData[] = newWordsToAdd.map((w, i) => ({
@@ -95,4 +532,4 @@ const seedInitialData = (state: AppState): AppState => {
     }));
 
     return { ...state, words: [...state.words, ...additionalWords] };
-};
\ No newline at end of file
+};
@@ -0,0 +1,278 @@
+import { ExampleSentence, WordContext, WordData } from '../types';
+import { boxForInterval, intervalForBox, SM2_DEFAULT_EASE } from './srs';
+
+// Flashcard files from other apps (CSV/TSV, Quizlet exports, Anki packages) are read into a plain
+// table first; the learner then says which column holds what, and each row becomes an ImportedWord.
+
+export type DeckField =
+  | 'word' | 'definition' | 'examples' | 'synonyms' | 'etymology' | 'mnemonic' | 'aiMnemonic'
+  | 'box' | 'due' | 'lastReview' | 'mastered' | 'lapses' | 'ease' | 'interval' | 'stability' | 'difficulty';
+
+export type ColumnMapping = (DeckField | null)[]; // One entry per column; null skips it
+
+export interface DeckTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type DeckExportFormat = 'csv' | 'tsv' | 'quizlet' | 'anki';
+
+// Column headers of our own exports; also recognised on import so files round-trip
+export const DECK_FIELD_LABELS: Record<DeckField, string> = {
+  word: 'Word',
+  definition: 'Definition',
+  examples: 'Examples',
+  synonyms: 'Synonyms',
+  etymology: 'Etymology',
+  mnemonic: 'Mnemonic',
+  aiMnemonic: 'AI Mnemonic',
+  box: 'Box',
+  due: 'Due',
+  lastReview: 'Last Review',
+  mastered: 'Mastered',
+  lapses: 'Lapses',
+  ease: 'Ease',
+  interval: 'Interval',
+  stability: 'Stability',
+  difficulty: 'Difficulty',
+};
+
+export const SCHEDULING_FIELDS: DeckField[] = ['box', 'due', 'lastReview', 'mastered', 'lapses', 'ease', 'interval', 'stability', 'difficulty'];
+
+// Other names the same columns go by in Quizlet, Anki and hand-made spreadsheets
+const HEADER_ALIASES: Record<string, DeckField> = {
+  term: 'word', front: 'word', question: 'word', vocab: 'word', vocabulary: 'word',
+  meaning: 'definition', back: 'definition', answer: 'definition', definitions: 'definition',
+  example: 'examples', sentence: 'examples', sentences: 'examples',
+  synonym: 'synonyms', origin: 'etymology',
+  'my mnemonic': 'mnemonic', hint: 'mnemonic', memory: 'mnemonic',
+  level: 'box', 'next review': 'due', 'due date': 'due', 'ease factor': 'ease', ivl: 'interval',
+};
+
+// Fields holding several entries are joined with this on export and split on it (or newlines) on import
+const LIST_SEPARATOR = ' | ';
+
+export type ImportedReview = Partial<Pick<WordData, 'leitnerBox' | 'nextReviewDate' | 'lastReview' | 'mastered' | 'lapses' | 'sm2' | 'fsrs'>>;
+
+// One row of an import, ready to be merged into the library
+export interface ImportedWord {
+  word: string;
+  definitions: WordContext[];
+  examples: ExampleSentence[];
+  synonyms: string[];
+  etymology: string;
+  userMnemonic?: string;
+  aiMnemonic?: string;
+  review?: ImportedReview; // Only present when the file carried scheduling columns
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
+
+const fieldForHeader = (header: string): DeckField | null => {
+  const name = normalizeHeader(header);
+  const byLabel = (Object.keys(DECK_FIELD_LABELS) as DeckField[]).find(f => normalizeHeader(DECK_FIELD_LABELS[f]) === name);
+  return byLabel || HEADER_ALIASES[name] || null;
+};
+
+// Best guess at what each column holds; without recognisable headers, word then definition
+export const guessColumnMapping = (table: DeckTable): ColumnMapping => {
+  const used = new Set<DeckField>();
+  const mapping = table.headers.map(header => {
+    const field = fieldForHeader(header);
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+  if (!used.has('word')) {
+    mapping[0] = 'word';
+    if (mapping.length > 1 && !used.has('definition')) mapping[1] = 'definition';
+  }
+  return mapping;
+};
+
+// RFC 4180 parsing: quoted fields may hold delimiters, doubled quotes and line breaks
+const parseDelimitedRows = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+// A first row counts as headers when any of it names a known column
+const toTable = (rows: string[][]): DeckTable => {
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const pad = (r: string[]) => Array.from({ length: width }, (_, i) => (r[i] || '').trim());
+  if (rows.length > 0 && rows[0].some(cell => fieldForHeader(cell))) {
+    return { headers: pad(rows[0]), rows: rows.slice(1).map(pad) };
+  }
+  return { headers: Array.from({ length: width }, (_, i) => `Column ${i + 1}`), rows: rows.map(pad) };
+};
+
+// CSV or TSV text. Tabs win when the first line has any, as commas are common inside definitions.
+export const parseDelimitedText = (text: string, delimiter?: string): DeckTable => {
+  // Anki's plain-text exports start with "#separator:tab"-style option lines
+  const body = text.replace(/^\uFEFF/, '').replace(/^(#\w+:.*(\r?\n|$))+/, '');
+  const firstLine = body.split(/\r?\n/, 1)[0] || '';
+  return toTable(parseDelimitedRows(body, delimiter || (firstLine.includes('\t') ? '\t' : ',')));
+};
+
+// Quizlet's export box: one card per row, term and definition split by the separators picked there
+export const parseQuizletText = (text: string, termSeparator = '\t', rowSeparator = '\n'): DeckTable => {
+  const rows = text.replace(/\r\n/g, '\n').split(rowSeparator).map(line => {
+    const at = line.indexOf(termSeparator);
+    return at === -1 ? [line.trim(), ''] : [line.slice(0, at).trim(), line.slice(at + termSeparator.length).trim()];
+  });
+  return { headers: ['Term', 'Definition'], rows: rows.filter(r => r[0]) };
+};
+
+const splitList = (value: string, separators: RegExp): string[] => value.split(separators).map(s => s.trim()).filter(Boolean);
+
+// "(Legal) a binding promise" keeps its context label; anything else is a general sense
+const parseDefinition = (text: string): WordContext => {
+  const match = text.match(/^\(([^)]{1,30})\)\s*(.+)$/);
+  return match ? { contextType: match[1], definition: match[2] } : { contextType: 'General', definition: text };
+};
+
+const parseNumber = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+// ISO dates or millisecond timestamps
+const parseDate = (value: string): number | undefined => {
+  if (/^\d{10,}$/.test(value)) return Number(value);
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const parseReview = (get: (field: DeckField) => string, now: number): ImportedReview | undefined => {
+  if (!SCHEDULING_FIELDS.some(f => get(f))) return undefined;
+  const review: ImportedReview = {};
+  const box = parseNumber(get('box'));
+  const interval = parseNumber(get('interval'));
+  const ease = parseNumber(get('ease'));
+  const stability = parseNumber(get('stability'));
+  const difficulty = parseNumber(get('difficulty'));
+  const lapses = parseNumber(get('lapses'));
+
+  if (box !== undefined) review.leitnerBox = Math.min(5, Math.max(0, Math.round(box)));
+  else if (interval) review.leitnerBox = boxForInterval(interval);
+  const due = parseDate(get('due'));
+  const lastReview = parseDate(get('lastReview'));
+  if (due) review.nextReviewDate = due;
+  if (lastReview) review.lastReview = lastReview;
+  if (get('mastered')) review.mastered = /^(yes|y|true|1|mastered)$/i.test(get('mastered'));
+  if (lapses !== undefined) review.lapses = Math.max(0, Math.round(lapses));
+  if (ease !== undefined || interval !== undefined) {
+    review.sm2 = {
+      easeFactor: ease !== undefined ? (ease > 10 ? ease / 1000 : ease) : SM2_DEFAULT_EASE, // Anki stores 2500 for 2.5
+      interval: interval || intervalForBox(review.leitnerBox || 1),
+      repetitions: review.leitnerBox || 0
+    };
+  }
+  if (stability !== undefined) review.fsrs = { stability, difficulty: difficulty ?? 5 };
+  // Started words with no due date come up for review straight away
+  if (review.leitnerBox && !review.nextReviewDate) review.nextReviewDate = now;
+  if (review.nextReviewDate && review.leitnerBox === undefined) review.leitnerBox = 1;
+  return review;
+};
+
+// Rows without a word are dropped; the same word twice keeps its first row
+export const tableToImportedWords = (table: DeckTable, mapping: ColumnMapping, now: number = Date.now()): ImportedWord[] => {
+  const seen = new Set<string>();
+  const words: ImportedWord[] = [];
+  table.rows.forEach(row => {
+    const get = (field: DeckField) => {
+      const column = mapping.indexOf(field);
+      return column === -1 ? '' : (row[column] || '').trim();
+    };
+    const word = get('word').replace(/\s+/g, ' ');
+    if (!word || seen.has(word.toLowerCase())) return;
+    seen.add(word.toLowerCase());
+    words.push({
+      word,
+      definitions: splitList(get('definition'), /\s\|\s|\n/).map(parseDefinition),
+      examples: splitList(get('examples'), /\s\|\s|\n/).map(text => ({ text, source: 'Imported' })),
+      synonyms: splitList(get('synonyms'), /[,;|\n]/),
+      etymology: get('etymology'),
+      userMnemonic: get('mnemonic') || undefined,
+      aiMnemonic: get('aiMnemonic') || undefined,
+      review: parseReview(get, now),
+    });
+  });
+  return words;
+};
+
+const formatDefinitions = (word: WordData): string =>
+  word.definitions.map(d => (d.contextType && d.contextType !== 'General' ? `(${d.contextType}) ${d.definition}` : d.definition)).join(LIST_SEPARATOR);
+
+const formatDate = (timestamp?: number): string => (timestamp ? new Date(timestamp).toISOString() : '');
+
+// Every field of our export for one word, keyed like DECK_FIELD_LABELS
+export const wordToFields = (word: WordData): Record<DeckField, string> => ({
+  word: word.word,
+  definition: formatDefinitions(word),
+  examples: word.examples.map(e => e.text).join(LIST_SEPARATOR),
+  synonyms: word.synonyms.join(', '),
+  etymology: word.etymology,
+  mnemonic: word.userMnemonic || '',
+  aiMnemonic: word.aiMnemonic,
+  box: String(word.leitnerBox),
+  due: word.leitnerBox > 0 ? formatDate(word.nextReviewDate) : '',
+  lastReview: formatDate(word.lastReview),
+  mastered: word.mastered ? 'yes' : '',
+  lapses: word.lapses ? String(word.lapses) : '',
+  ease: word.sm2 ? String(word.sm2.easeFactor) : '',
+  interval: word.sm2 ? String(word.sm2.interval) : '',
+  stability: word.fsrs ? String(Math.round(word.fsrs.stability * 100) / 100) : '',
+  difficulty: word.fsrs ? String(Math.round(word.fsrs.difficulty * 100) / 100) : '',
+});
+
+export const toDelimitedText = (words: WordData[], delimiter: ',' | '\t'): string => {
+  const fields = Object.keys(DECK_FIELD_LABELS) as DeckField[];
+  const escape = (value: string) => (/[",\t\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const lines = [fields.map(f => DECK_FIELD_LABELS[f])]
+    .concat(words.map(word => {
+      const values = wordToFields(word);
+      return fields.map(f => values[f]);
+    }))
+    .map(values => values.map(escape).join(delimiter));
+  return lines.join('\r\n');
+};
+
+// Quizlet only has a term and a definition, so the mnemonic rides along in the definition.
+// Scheduling can't be carried over.
+export const toQuizletText = (words: WordData[]): string => {
+  const flatten = (text: string) => text.replace(/[\t\r\n]+/g, ' ').trim();
+  return words.map(word => {
+    const mnemonic = word.userMnemonic || word.aiMnemonic;
+    const definition = formatDefinitions(word) + (mnemonic ? ` (Mnemonic: ${mnemonic})` : '');
+    return `${flatten(word.word)}\t${flatten(definition)}`;
+  }).join('\n');
+};
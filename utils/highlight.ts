@@ -0,0 +1,57 @@
+import { WordData } from '../types';
+import { stem } from './answerCheck';
+
+// Words this long that aren't in the library are offered as one-tap additions
+export const HARD_WORD_MIN_LENGTH = 8;
+
+export interface PassageToken {
+  text: string;
+  wordId?: string; // Set when the token is a library word or an inflection of one
+  isCandidate?: boolean; // An unknown word that looks worth learning
+}
+
+export interface WordMatcher {
+  forms: Map<string, string>; // Exact lowercase spelling -> word id
+  stems: Map<string, string>; // Stem -> word id, for inflected forms
+}
+
+// Single-word library entries only; phrases never appear as one token
+export const buildWordMatcher = (words: WordData[]): WordMatcher => {
+  const forms = new Map<string, string>();
+  const stems = new Map<string, string>();
+  words.forEach(w => {
+    const form = w.word.trim().toLowerCase();
+    if (!/^[a-zÀ-ɏ-]+$/.test(form)) return;
+    if (!forms.has(form)) forms.set(form, w.id);
+    const root = stem(form);
+    if (root.length >= 3 && !stems.has(root)) stems.set(root, w.id);
+  });
+  return { forms, stems };
+};
+
+export const matchWord = (token: string, matcher: WordMatcher): string | undefined => {
+  const form = token.toLowerCase();
+  return matcher.forms.get(form) || matcher.stems.get(stem(form));
+};
+
+// Words (letters, inner hyphens and apostrophes) are captured so the split keeps them as their own parts
+const WORD_PATTERN = /([A-Za-zÀ-ɏ]+(?:['’-][A-Za-zÀ-ɏ]+)*)/;
+
+// Splits text into tokens, tagging library words and unknown hard words. Capitalised words
+// mid-sentence are taken for names and left alone.
+export const tokenizePassage = (text: string, matcher: WordMatcher): PassageToken[] => {
+  let atSentenceStart = true;
+  return text.split(WORD_PATTERN).filter(part => part.length > 0).map(part => {
+    if (!WORD_PATTERN.test(part)) {
+      if (/[.!?:"“]\s*$/.test(part)) atSentenceStart = true;
+      return { text: part };
+    }
+    const isName = !atSentenceStart && /^[A-Z]/.test(part);
+    atSentenceStart = false;
+    if (/['’]/.test(part)) return { text: part }; // Contractions and possessives
+    const wordId = matchWord(part, matcher);
+    if (wordId) return { text: part, wordId };
+    const isCandidate = !isName && !part.includes('-') && part.length >= HARD_WORD_MIN_LENGTH;
+    return isCandidate ? { text: part, isCandidate } : { text: part };
+  });
+};
@@ -0,0 +1,82 @@
+import { WordContext, WordData } from '../types';
+
+export const QUIZ_OPTION_COUNT = 4;
+
+export interface QuizOption {
+  wordId: string; // The word this definition belongs to
+  definition: string;
+}
+
+export interface QuizQuestion {
+  word: WordData;
+  options: QuizOption[];
+  correctIndex: number;
+}
+
+const PARTS_OF_SPEECH: [RegExp, string][] = [
+  [/\bnoun\b/i, 'noun'],
+  [/\bverb\b/i, 'verb'],
+  [/\b(adjective|adj)\b/i, 'adjective'],
+  [/\b(adverb|adv)\b/i, 'adverb']
+];
+
+// contextType is free text ("Verb", "Noun (formal)", "Legal"); null when it doesn't name a part of speech
+export const partOfSpeech = (context: WordContext): string | null => {
+  const match = PARTS_OF_SPEECH.find(([pattern]) => pattern.test(context.contextType));
+  return match ? match[1] : null;
+};
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// Synonyms make bad distractors: their definition is often a fair answer too
+const areSynonyms = (a: WordData, b: WordData): boolean => {
+  return a.synonyms.some(s => normalize(s) === normalize(b.word)) || b.synonyms.some(s => normalize(s) === normalize(a.word));
+};
+
+// One question for `word`, or null if it has no definition or the bank is too small for a full set of options.
+// Distractors share the asked definition's part of speech where possible, so grammar alone doesn't give the answer away.
+export const buildQuizQuestion = (word: WordData, bank: WordData[], random: () => number = Math.random): QuizQuestion | null => {
+  if (word.definitions.length === 0) return null;
+  const asked = word.definitions[Math.floor(random() * word.definitions.length)];
+  const askedPos = partOfSpeech(asked);
+
+  const seen = new Set([normalize(asked.definition)]);
+  const candidates: (QuizOption & { samePos: boolean })[] = [];
+  shuffle(bank, random).forEach(other => {
+    if (other.id === word.id || normalize(other.word) === normalize(word.word) || areSynonyms(word, other)) return;
+    const sameTypeDefinition = other.definitions.find(d => askedPos !== null && partOfSpeech(d) === askedPos);
+    const definition = sameTypeDefinition || other.definitions[0];
+    if (!definition || seen.has(normalize(definition.definition))) return;
+    seen.add(normalize(definition.definition));
+    candidates.push({ wordId: other.id, definition: definition.definition, samePos: !!sameTypeDefinition });
+  });
+
+  const distractors = [...candidates.filter(c => c.samePos), ...candidates.filter(c => !c.samePos)]
+    .slice(0, QUIZ_OPTION_COUNT - 1)
+    .map(({ wordId, definition }) => ({ wordId, definition }));
+  if (distractors.length < QUIZ_OPTION_COUNT - 1) return null;
+
+  const options = shuffle([{ wordId: word.id, definition: asked.definition }, ...distractors], random);
+  return { word, options, correctIndex: options.findIndex(o => o.wordId === word.id) };
+};
+
+// Questions for every target that can have one; the rest (usually words not enriched yet) come back as skipped
+export const buildQuiz = (targets: WordData[], bank: WordData[], random: () => number = Math.random): { questions: QuizQuestion[]; skipped: WordData[] } => {
+  const questions: QuizQuestion[] = [];
+  const skipped: WordData[] = [];
+  targets.forEach(word => {
+    const question = buildQuizQuestion(word, bank, random);
+    if (question) questions.push(question);
+    else skipped.push(word);
+  });
+  return { questions, skipped };
+};
@@ -0,0 +1,361 @@
+// A small reader and writer for SQLite database files, enough to get notes and cards in and out of
+// Anki packages without shipping a SQLite engine. Reading walks table b-trees only (no SQL, no
+// indexes); writing produces tables without indexes, which SQLite and Anki open fine.
+
+export type SqlValue = null | number | string | Uint8Array;
+export type SqlRow = Record<string, SqlValue>;
+
+const WRITE_PAGE_SIZE = 4096;
+const DB_HEADER_SIZE = 100;
+const TABLE_LEAF = 0x0d;
+const TABLE_INTERIOR = 0x05;
+
+// Largest payload kept on a table leaf page; the rest spills onto overflow pages
+const localPayloadSize = (payloadSize: number, usableSize: number): number => {
+  const maxLocal = usableSize - 35;
+  if (payloadSize <= maxLocal) return payloadSize;
+  const minLocal = Math.floor(((usableSize - 12) * 32) / 255) - 23;
+  const size = minLocal + ((payloadSize - minLocal) % (usableSize - 4));
+  return size <= maxLocal ? size : minLocal;
+};
+
+const readVarint = (bytes: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = bytes[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [value, i + 1];
+  }
+  return [value * 256 + bytes[offset + 8], 9];
+};
+
+const encodeVarint = (value: number): number[] => {
+  const groups: number[] = [];
+  do {
+    groups.unshift(value % 128);
+    value = Math.floor(value / 128);
+  } while (value > 0);
+  return groups.map((group, i) => (i < groups.length - 1 ? group | 0x80 : group));
+};
+
+// Column names in declaration order, and which one (if any) is an alias for the rowid
+const parseColumns = (sql: string): { names: string[]; rowidColumn: number } => {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current.trim());
+
+  const columns = definitions.filter(d => d && !/^(primary|unique|check|foreign|constraint)\b/i.test(d));
+  return {
+    names: columns.map(d => d.split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, '')),
+    rowidColumn: columns.findIndex(d => /^\S+\s+integer\s+primary\s+key\b/i.test(d))
+  };
+};
+
+const decodeRecord = (payload: Uint8Array): SqlValue[] => {
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const decoder = new TextDecoder();
+  const [headerSize, headerVarint] = readVarint(payload, 0);
+  const serialTypes: number[] = [];
+  for (let pos = headerVarint; pos < headerSize;) {
+    const [serialType, length] = readVarint(payload, pos);
+    serialTypes.push(serialType);
+    pos += length;
+  }
+
+  let pos = headerSize;
+  return serialTypes.map(serialType => {
+    switch (serialType) {
+      case 0: return null;
+      case 1: pos += 1; return view.getInt8(pos - 1);
+      case 2: pos += 2; return view.getInt16(pos - 2);
+      case 3: pos += 3; return (view.getInt8(pos - 3) << 16) | view.getUint16(pos - 2);
+      case 4: pos += 4; return view.getInt32(pos - 4);
+      case 5: pos += 6; return view.getInt16(pos - 6) * 2 ** 32 + view.getUint32(pos - 4);
+      case 6: pos += 8; return Number(view.getBigInt64(pos - 8));
+      case 7: pos += 8; return view.getFloat64(pos - 8);
+      case 8: return 0;
+      case 9: return 1;
+      default: {
+        const length = Math.floor((serialType - 12) / 2);
+        const data = payload.subarray(pos, pos + length);
+        pos += length;
+        return serialType % 2 === 0 ? data : decoder.decode(data);
+      }
+    }
+  });
+};
+
+// Reads every row of the named tables. Tables that don't exist are left out of the result.
+export const readSqliteTables = (bytes: Uint8Array, tableNames: string[]): Record<string, SqlRow[]> => {
+  if (new TextDecoder().decode(bytes.subarray(0, 15)) !== 'SQLite format 3') throw new Error('Not a SQLite database.');
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const rawPageSize = view.getUint16(16);
+  const pageSize = rawPageSize === 1 ? 65536 : rawPageSize;
+  const usableSize = pageSize - bytes[20];
+
+  const readPayload = (cellStart: number, payloadSize: number): Uint8Array => {
+    const local = localPayloadSize(payloadSize, usableSize);
+    if (local === payloadSize) return bytes.subarray(cellStart, cellStart + payloadSize);
+    const payload = new Uint8Array(payloadSize);
+    payload.set(bytes.subarray(cellStart, cellStart + local));
+    let filled = local;
+    let page = view.getUint32(cellStart + local);
+    while (page && filled < payloadSize) {
+      const start = (page - 1) * pageSize;
+      const chunk = Math.min(usableSize - 4, payloadSize - filled);
+      payload.set(bytes.subarray(start + 4, start + 4 + chunk), filled);
+      filled += chunk;
+      page = view.getUint32(start);
+    }
+    return payload;
+  };
+
+  const walkTable = (page: number, visit: (rowid: number, record: SqlValue[]) => void) => {
+    const start = (page - 1) * pageSize;
+    const header = start + (page === 1 ? DB_HEADER_SIZE : 0);
+    const type = bytes[header];
+    const cellCount = view.getUint16(header + 3);
+    if (type === TABLE_LEAF) {
+      for (let i = 0; i < cellCount; i++) {
+        let pos = start + view.getUint16(header + 8 + i * 2);
+        const [payloadSize, sizeLength] = readVarint(bytes, pos);
+        pos += sizeLength;
+        const [rowid, rowidLength] = readVarint(bytes, pos);
+        visit(rowid, decodeRecord(readPayload(pos + rowidLength, payloadSize)));
+      }
+    } else if (type === TABLE_INTERIOR) {
+      for (let i = 0; i < cellCount; i++) {
+        walkTable(view.getUint32(start + view.getUint16(header + 12 + i * 2)), visit);
+      }
+      walkTable(view.getUint32(header + 8), visit);
+    } else {
+      throw new Error(`Unexpected b-tree page type ${type}.`);
+    }
+  };
+
+  const readTable = (rootPage: number, sql: string): SqlRow[] => {
+    const { names, rowidColumn } = parseColumns(sql);
+    const rows: SqlRow[] = [];
+    walkTable(rootPage, (rowid, record) => {
+      const row: SqlRow = {};
+      names.forEach((name, i) => { row[name] = i === rowidColumn ? rowid : (record[i] ?? null); });
+      rows.push(row);
+    });
+    return rows;
+  };
+
+  const result: Record<string, SqlRow[]> = {};
+  readTable(1, 'sqlite_master (type, name, tbl_name, rootpage, sql)').forEach(entry => {
+    if (entry.type === 'table' && tableNames.includes(entry.name as string)) {
+      result[entry.name as string] = readTable(entry.rootpage as number, entry.sql as string);
+    }
+  });
+  return result;
+};
+
+const encodeRecord = (values: SqlValue[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const serialTypes: number[] = [];
+  const bodies: Uint8Array[] = [];
+
+  values.forEach(value => {
+    if (value === null) {
+      serialTypes.push(0);
+    } else if (typeof value === 'string') {
+      const data = encoder.encode(value);
+      serialTypes.push(data.length * 2 + 13);
+      bodies.push(data);
+    } else if (value instanceof Uint8Array) {
+      serialTypes.push(value.length * 2 + 12);
+      bodies.push(value);
+    } else if (!Number.isInteger(value)) {
+      const data = new Uint8Array(8);
+      new DataView(data.buffer).setFloat64(0, value);
+      serialTypes.push(7);
+      bodies.push(data);
+    } else if (value === 0 || value === 1) {
+      serialTypes.push(value === 0 ? 8 : 9);
+    } else {
+      const [serialType, length] =
+        Math.abs(value) < 2 ** 7 ? [1, 1] :
+        Math.abs(value) < 2 ** 15 ? [2, 2] :
+        Math.abs(value) < 2 ** 23 ? [3, 3] :
+        Math.abs(value) < 2 ** 31 ? [4, 4] :
+        Math.abs(value) < 2 ** 47 ? [5, 6] : [6, 8];
+      const data = new Uint8Array(length);
+      let bits = BigInt.asUintN(length * 8, BigInt(value));
+      for (let i = length - 1; i >= 0; i--) {
+        data[i] = Number(bits & 0xffn);
+        bits >>= 8n;
+      }
+      serialTypes.push(serialType);
+      bodies.push(data);
+    }
+  });
+
+  const typeBytes = serialTypes.flatMap(encodeVarint);
+  let headerSize = typeBytes.length + 1;
+  if (encodeVarint(headerSize).length > 1) headerSize = typeBytes.length + encodeVarint(typeBytes.length + 2).length;
+  const record = new Uint8Array(headerSize + bodies.reduce((sum, b) => sum + b.length, 0));
+  record.set([...encodeVarint(headerSize), ...typeBytes]);
+  let pos = headerSize;
+  bodies.forEach(body => { record.set(body, pos); pos += body.length; });
+  return record;
+};
+
+export interface SqlTableData {
+  name: string;
+  sql: string; // The CREATE TABLE statement, stored as-is in sqlite_master
+  rows: SqlValue[][]; // Values in column order; an INTEGER PRIMARY KEY column supplies the rowid
+}
+
+// Builds a database file holding the given tables
+export const buildSqlite = (tables: SqlTableData[]): Uint8Array => {
+  const pages: Uint8Array[] = [];
+  const newPage = (): number => {
+    pages.push(new Uint8Array(WRITE_PAGE_SIZE));
+    return pages.length;
+  };
+  const headerOffset = (page: number) => (page === 1 ? DB_HEADER_SIZE : 0);
+
+  const writePage = (page: number, type: number, cells: Uint8Array[], rightChild?: number) => {
+    const data = pages[page - 1];
+    const view = new DataView(data.buffer);
+    const header = headerOffset(page);
+    const headerLength = rightChild === undefined ? 8 : 12;
+    let contentStart = WRITE_PAGE_SIZE;
+    cells.forEach((cell, i) => {
+      contentStart -= cell.length;
+      data.set(cell, contentStart);
+      view.setUint16(header + headerLength + i * 2, contentStart);
+    });
+    data[header] = type;
+    view.setUint16(header + 3, cells.length);
+    view.setUint16(header + 5, contentStart);
+    if (rightChild !== undefined) view.setUint32(header + 8, rightChild);
+  };
+
+  // Leaf cell for one row, moving whatever doesn't fit onto a chain of overflow pages
+  const leafCell = (rowid: number, payload: Uint8Array): Uint8Array => {
+    const local = localPayloadSize(payload.length, WRITE_PAGE_SIZE);
+    const head = [...encodeVarint(payload.length), ...encodeVarint(rowid)];
+    const cell = new Uint8Array(head.length + local + (local < payload.length ? 4 : 0));
+    cell.set(head);
+    cell.set(payload.subarray(0, local), head.length);
+    if (local < payload.length) {
+      let next = newPage();
+      new DataView(cell.buffer).setUint32(cell.length - 4, next);
+      for (let pos = local; pos < payload.length; pos += WRITE_PAGE_SIZE - 4) {
+        const page = next;
+        const data = pages[page - 1];
+        data.set(payload.subarray(pos, pos + WRITE_PAGE_SIZE - 4), 4);
+        if (pos + WRITE_PAGE_SIZE - 4 < payload.length) {
+          next = newPage();
+          new DataView(data.buffer).setUint32(0, next);
+        }
+      }
+    }
+    return cell;
+  };
+
+  // Packs rows into leaf pages and stacks interior pages on top; returns the root page
+  const writeTable = (rows: [number, Uint8Array][], rootPage?: number): number => {
+    let children: { page: number; maxRowid: number }[] = [];
+    let cells: Uint8Array[] = [];
+    let used = 0;
+    const flushLeaf = (maxRowid: number) => {
+      const page = rootPage && children.length === 0 ? rootPage : newPage();
+      writePage(page, TABLE_LEAF, cells, undefined);
+      children.push({ page, maxRowid });
+      cells = [];
+    };
+
+    rows.forEach(([rowid, payload], i) => {
+      const cell = leafCell(rowid, payload);
+      const limit = WRITE_PAGE_SIZE - headerOffset(rootPage && children.length === 0 ? rootPage : 0) - 8;
+      if (cells.length > 0 && used + cell.length + 2 > limit) {
+        flushLeaf(rows[i - 1][0]);
+        used = 0;
+      }
+      cells.push(cell);
+      used += cell.length + 2;
+    });
+    flushLeaf(rows.length > 0 ? rows[rows.length - 1][0] : 0);
+
+    if (rootPage && children.length > 1) throw new Error('Schema table does not fit on the first page.');
+    while (children.length > 1) {
+      const parents: typeof children = [];
+      let i = 0;
+      while (i < children.length) {
+        const group = [children[i++]];
+        let size = 12;
+        while (i < children.length) {
+          const cellSize = 4 + encodeVarint(group[group.length - 1].maxRowid).length + 2;
+          if (size + cellSize > WRITE_PAGE_SIZE) break;
+          size += cellSize;
+          group.push(children[i++]);
+        }
+        // Never leave a single child for the next page, which would get no cells at all
+        if (children.length - i === 1 && group.length > 2) {
+          group.pop();
+          i--;
+        }
+        const page = newPage();
+        const dividers = group.slice(0, -1).map(child => {
+          const cell = new Uint8Array([0, 0, 0, 0, ...encodeVarint(child.maxRowid)]);
+          new DataView(cell.buffer).setUint32(0, child.page);
+          return cell;
+        });
+        writePage(page, TABLE_INTERIOR, dividers, group[group.length - 1].page);
+        parents.push({ page, maxRowid: group[group.length - 1].maxRowid });
+      }
+      children = parents;
+    }
+    return children[0].page;
+  };
+
+  newPage(); // Page 1 holds the file header and the schema table, written last
+  const schemaRows: [number, Uint8Array][] = tables.map((table, i) => {
+    const { rowidColumn } = parseColumns(table.sql);
+    const rows = table.rows
+      .map((values, index): [number, Uint8Array] => {
+        const rowid = rowidColumn >= 0 ? (values[rowidColumn] as number) : index + 1;
+        return [rowid, encodeRecord(values.map((v, c) => (c === rowidColumn ? null : v)))];
+      })
+      .sort((a, b) => a[0] - b[0]);
+    const root = writeTable(rows);
+    return [i + 1, encodeRecord(['table', table.name, table.name, root, table.sql])];
+  });
+  writeTable(schemaRows, 1);
+
+  const out = new Uint8Array(pages.length * WRITE_PAGE_SIZE);
+  pages.forEach((page, i) => out.set(page, i * WRITE_PAGE_SIZE));
+  const view = new DataView(out.buffer);
+  out.set(new TextEncoder().encode('SQLite format 3\0'));
+  view.setUint16(16, WRITE_PAGE_SIZE);
+  out[18] = 1; // Legacy (rollback journal) file format
+  out[19] = 1;
+  out[21] = 64; // Payload fractions, fixed by the file format
+  out[22] = 32;
+  out[23] = 32;
+  view.setUint32(24, 1); // File change counter
+  view.setUint32(28, pages.length);
+  view.setUint32(40, 1); // Schema cookie
+  view.setUint32(44, 4); // Schema format
+  view.setUint32(56, 1); // UTF-8
+  view.setUint32(92, 1); // Change counter the size above is valid for
+  view.setUint32(96, 3045000);
+  return out;
+};
@@ -1,4 +1,4 @@
-import { WordData } from '../types';
+import { CardDirection, ReviewGrade, ReviewLogEntry, ReviewState, SchedulerId, WordData } from '../types';
 
 // Standard Leitner Intervals in Days
 // Box 1: 1 day
@@ -7,37 +7,270 @@ import { WordData } from '../types';
 // Box 4: 14 days
 // Box 5: 30 days
 const INTERVALS = [1, 1, 3, 7, 14, 30];
+const MAX_BOX = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-export const calculateNextReview = (currentBox: number, isCorrect: boolean): { box: number; nextReview: number } => {
-  let newBox = currentBox;
-  
-  if (isCorrect) {
-    // Promote to next box, cap at 5
-    newBox = Math.min(currentBox + 1, 5);
-  } else {
-    // Incorrect: Reset to Box 1 (Frequent Review)
-    newBox = 1;
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface Scheduler {
+  id: SchedulerId;
+  label: string;
+  description: string;
+  // Returns the fields to merge into the word after an answer
+  review: (state: ReviewState, grade: ReviewGrade, now: number) => ReviewState;
+  isDue: (state: ReviewState, now: number) => boolean;
+  // Seeds this model's per-word state from the shared leitnerBox/nextReviewDate fields
+  migrate: (state: ReviewState) => ReviewState;
+}
+
+// Shared by every model: new (box 0) and mastered words are never "due"
+const isDueByDate = (state: ReviewState, now: number): boolean => {
+  if (state.mastered) return false;
+  // If box is 0 (new) or undefined, it's not strictly "due" by SRS logic,
+  // but handled by the "New Sets" view.
+  // This function checks if a word actively in the learning pile is due.
+  if (!state.nextReviewDate && state.leitnerBox > 0) return true; // Safety fallback
+
+  return state.leitnerBox > 0 && now >= state.nextReviewDate;
+};
+
+// SM-2 and FSRS think in raw intervals; map them back onto boxes so the
+// dashboard, library levels and set progress keep working for every model.
+export const boxForInterval = (days: number): number => {
+  let box = 1;
+  for (let b = 1; b <= MAX_BOX; b++) {
+    if (days >= INTERVALS[b]) box = b;
   }
+  return box;
+};
+
+export const intervalForBox = (box: number): number => INTERVALS[box] || 1;
 
-  const daysToAdd = INTERVALS[newBox] || 1;
-  const nextReview = Date.now() + (daysToAdd * 24 * 60 * 60 * 1000);
+// A word is mastered once its next interval would take it past the last box
+const isBeyondLastBox = (days: number): boolean => days > INTERVALS[MAX_BOX];
 
-  return {
-    box: newBox,
-    nextReview
-  };
+const leitnerScheduler: Scheduler = {
+  id: 'leitner',
+  label: 'Leitner Boxes',
+  description: 'Five fixed boxes (1, 3, 7, 14, 30 days). Good moves up one box, Easy two, Hard stays put, Again returns to box 1.',
+  review: (state, grade, now) => {
+    const currentBox = state.leitnerBox;
+    let newBox = currentBox;
+    let mastered = false;
+
+    if (grade === 'again') {
+      // Incorrect: Reset to Box 1 (Frequent Review)
+      newBox = 1;
+    } else if (grade === 'hard') {
+      // Shaky recall: repeat the current interval
+      newBox = Math.max(currentBox, 1);
+    } else {
+      // A correct answer in the last box graduates the word out of the rotation
+      if (currentBox >= MAX_BOX) mastered = true;
+      // Promote to next box (two for easy), cap at 5
+      newBox = Math.min(currentBox + (grade === 'easy' ? 2 : 1), MAX_BOX);
+    }
+
+    const daysToAdd = INTERVALS[newBox] || 1;
+    return {
+      ...state,
+      leitnerBox: newBox,
+      nextReviewDate: now + (daysToAdd * DAY_MS),
+      mastered,
+      lastReview: now
+    };
+  },
+  isDue: isDueByDate,
+  migrate: (state) => state
 };
 
-export const isDueForReview = (word: WordData): boolean => {
-  if (word.mastered) return false;
-  // If box is 0 (new) or undefined, it's not strictly "due" by SRS logic, 
-  // but handled by the "New Sets" view.
-  // This function checks if a word actively in the learning pile is due.
-  if (!word.nextReviewDate && word.leitnerBox > 0) return true; // Safety fallback
-  
-  return word.leitnerBox > 0 && Date.now() >= word.nextReviewDate;
+export const SM2_DEFAULT_EASE = 2.5;
+const SM2_MIN_EASE = 1.3;
+// SM-2 grades recall 0..5
+const SM2_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+// Classic SM-2 gives every passing grade the same interval; scale it so the grade matters now
+const SM2_INTERVAL_FACTOR: Record<ReviewGrade, number> = { again: 1, hard: 0.6, good: 1, easy: 1.3 };
+
+const sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  label: 'SM-2 (SuperMemo)',
+  description: 'Each word keeps its own ease factor, so easy words spread out faster than stubborn ones.',
+  review: (state, grade, now) => {
+    const { sm2 } = sm2Scheduler.migrate(state);
+    const prev = sm2 || { easeFactor: SM2_DEFAULT_EASE, interval: 0, repetitions: 0 };
+    const quality = SM2_QUALITY[grade];
+
+    let { repetitions, interval } = prev;
+    if (quality >= 3) {
+      if (repetitions === 0) interval = grade === 'easy' ? 4 : 1;
+      else if (repetitions === 1) interval = 6;
+      else interval = interval * prev.easeFactor;
+      interval = Math.max(1, Math.round(interval * SM2_INTERVAL_FACTOR[grade]));
+      repetitions += 1;
+    } else {
+      repetitions = 0;
+      interval = 1;
+    }
+
+    const easeFactor = Math.max(
+      SM2_MIN_EASE,
+      prev.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    return {
+      ...state,
+      sm2: { easeFactor, interval, repetitions },
+      leitnerBox: boxForInterval(interval),
+      nextReviewDate: now + interval * DAY_MS,
+      mastered: isBeyondLastBox(interval),
+      lastReview: now
+    };
+  },
+  isDue: isDueByDate,
+  migrate: (state) => {
+    if (state.sm2 || state.leitnerBox === 0) return state;
+    return {
+      ...state,
+      sm2: { easeFactor: SM2_DEFAULT_EASE, interval: INTERVALS[state.leitnerBox] || 1, repetitions: state.leitnerBox }
+    };
+  }
 };
 
-export const getReviewQueue = (words: WordData[]): WordData[] => {
-  return words.filter(w => isDueForReview(w));
-};
\ No newline at end of file
+// FSRS-4.5 default weights and forgetting curve, targeting 90% retention
+const FSRS_W = [0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81;
+const FSRS_RETENTION = 0.9;
+// FSRS grades 1 (again) .. 4 (easy)
+const FSRS_GRADE: Record<ReviewGrade, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+
+const clampDifficulty = (d: number) => Math.min(10, Math.max(1, d));
+const fsrsInitialDifficulty = (grade: number) => clampDifficulty(FSRS_W[4] - (grade - 3) * FSRS_W[5]);
+const fsrsRetrievability = (elapsedDays: number, stability: number) => Math.pow(1 + FSRS_FACTOR * elapsedDays / stability, FSRS_DECAY);
+const fsrsInterval = (stability: number) => Math.max(1, Math.round(stability / FSRS_FACTOR * (Math.pow(FSRS_RETENTION, 1 / FSRS_DECAY) - 1)));
+
+const fsrsScheduler: Scheduler = {
+  id: 'fsrs',
+  label: 'FSRS (Stability / Difficulty)',
+  description: 'Models how stable each memory is and how hard the word is for you, then schedules at ~90% predicted recall.',
+  review: (state, reviewGrade, now) => {
+    const { fsrs: prev } = fsrsScheduler.migrate(state);
+    const grade = FSRS_GRADE[reviewGrade];
+
+    let stability: number;
+    let difficulty: number;
+    if (!prev) {
+      stability = FSRS_W[grade - 1];
+      difficulty = fsrsInitialDifficulty(grade);
+    } else {
+      const elapsedDays = state.lastReview ? Math.max(0, (now - state.lastReview) / DAY_MS) : 0;
+      const r = fsrsRetrievability(elapsedDays, prev.stability);
+      if (grade === 1) {
+        stability = FSRS_W[11] * Math.pow(prev.difficulty, -FSRS_W[12]) * (Math.pow(prev.stability + 1, FSRS_W[13]) - 1) * Math.exp(FSRS_W[14] * (1 - r));
+        stability = Math.min(stability, prev.stability);
+      } else {
+        const hardPenalty = grade === 2 ? FSRS_W[15] : 1;
+        const easyBonus = grade === 4 ? FSRS_W[16] : 1;
+        stability = prev.stability * (1 + Math.exp(FSRS_W[8]) * (11 - prev.difficulty) * Math.pow(prev.stability, -FSRS_W[9]) * (Math.exp(FSRS_W[10] * (1 - r)) - 1) * hardPenalty * easyBonus);
+      }
+      // Move difficulty by grade, then revert slightly towards the default
+      const shifted = prev.difficulty - FSRS_W[6] * (grade - 3);
+      difficulty = clampDifficulty(FSRS_W[7] * fsrsInitialDifficulty(3) + (1 - FSRS_W[7]) * shifted);
+    }
+
+    const interval = grade === 1 ? 1 : fsrsInterval(stability);
+    return {
+      ...state,
+      fsrs: { stability, difficulty },
+      leitnerBox: boxForInterval(interval),
+      nextReviewDate: now + interval * DAY_MS,
+      mastered: isBeyondLastBox(interval),
+      lastReview: now
+    };
+  },
+  isDue: isDueByDate,
+  migrate: (state) => {
+    if (state.fsrs || state.leitnerBox === 0) return state;
+    return {
+      ...state,
+      fsrs: { stability: INTERVALS[state.leitnerBox] || 1, difficulty: fsrsInitialDifficulty(3) }
+    };
+  }
+};
+
+export const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+  leitner: leitnerScheduler,
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler
+};
+
+export const getScheduler = (id: SchedulerId = 'leitner'): Scheduler => SCHEDULERS[id] || leitnerScheduler;
+
+// A word that has never been reviewed in a direction
+const NEW_REVIEW_STATE: ReviewState = { leitnerBox: 0, nextReviewDate: 0, mastered: false };
+
+// Each direction is scheduled on its own: forward state lives on the word itself, reverse under `reverse`
+export const getReviewState = (word: WordData, direction: CardDirection = 'forward'): ReviewState => {
+  if (direction === 'reverse') return word.reverse || NEW_REVIEW_STATE;
+  const { leitnerBox, nextReviewDate, mastered, lastReview, sm2, fsrs } = word;
+  return { leitnerBox, nextReviewDate, mastered, lastReview, sm2, fsrs };
+};
+
+export const withReviewState = (word: WordData, state: ReviewState, direction: CardDirection = 'forward'): WordData => {
+  return direction === 'reverse' ? { ...word, reverse: state } : { ...word, ...state };
+};
+
+// Another copy of the word with `source`'s review fields (both directions, lapses, last response time)
+export const withSchedulingFrom = (word: WordData, source: WordData): WordData => ({
+  ...withReviewState(word, getReviewState(source)),
+  reverse: source.reverse,
+  lapses: source.lapses,
+  lastResponseMs: source.lastResponseMs
+});
+
+export const calculateNextReview = (state: ReviewState, grade: ReviewGrade, schedulerId?: SchedulerId): ReviewState => {
+  return getScheduler(schedulerId).review(state, grade, Date.now());
+};
+
+export const isDueForReview = (word: WordData, schedulerId?: SchedulerId, direction: CardDirection = 'forward'): boolean => {
+  return getScheduler(schedulerId).isDue(getReviewState(word, direction), Date.now());
+};
+
+export const getReviewQueue = (words: WordData[], schedulerId?: SchedulerId): WordData[] => {
+  return words.filter(w => isDueForReview(w, schedulerId));
+};
+
+// Reverse cards need a definition to show and only make sense once the word has been met forward.
+// Due reverse reviews come first, then words that have never been tried in reverse.
+export const getReverseQueue = (words: WordData[], schedulerId?: SchedulerId): WordData[] => {
+  const candidates = words.filter(w => w.definitions.length > 0 && (w.leitnerBox > 0 || w.mastered));
+  const due = candidates.filter(w => isDueForReview(w, schedulerId, 'reverse'));
+  const unseen = candidates.filter(w => getReviewState(w, 'reverse').leitnerBox === 0);
+  return [...due, ...unseen];
+};
+
+// Fill in the chosen model's per-word state for every word that has been studied, in both directions
+export const migrateWordsToScheduler = (words: WordData[], schedulerId: SchedulerId): WordData[] => {
+  const scheduler = getScheduler(schedulerId);
+  return words.map(w => ({
+    ...w,
+    ...scheduler.migrate(w),
+    ...(w.reverse ? { reverse: scheduler.migrate(w.reverse) } : {})
+  }));
+};
+
+// A lapse is forgetting a word that had already made it into the review boxes. Misses during
+// learning steps don't count: the card was just forgotten and is being relearned. Only the
+// forward card has lapses; reverse misses stay in the log.
+export const isLapse = (entry: Pick<ReviewLogEntry, 'grade' | 'boxBefore' | 'learningStep' | 'direction'>): boolean => {
+  return entry.grade === 'again' && entry.boxBefore > 0 && !entry.learningStep && entry.direction !== 'reverse';
+};
+
+// Human readable distance to a review timestamp, e.g. "today", "tomorrow", "in 7 days"
+export const formatDueDate = (timestamp: number): string => {
+  const days = Math.round((timestamp - Date.now()) / DAY_MS);
+  if (days <= 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  if (days < 60) return `in ${days} days`;
+  return new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+};
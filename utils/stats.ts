@@ -0,0 +1,99 @@
+import { ReviewLogEntry, ReviewState, WordData } from '../types';
+
+// Aggregations behind the Stats view. Days are local calendar days, identified by their midnight timestamp.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Gaps longer than this between answers count as a break, not study time
+const SESSION_GAP_MS = 5 * 60 * 1000;
+
+export const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Midnight n days after the given midnight; setDate keeps DST days the right length
+const addDays = (dayStart: number, days: number): number => {
+  const date = new Date(dayStart);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export interface HeatmapDay {
+  dayStart: number;
+  count: number;
+}
+
+// Whole weeks, Sunday to Saturday, ending with the current week; days after today are left out
+export const buildHeatmap = (entries: ReviewLogEntry[], weeks: number, now: number = Date.now()): HeatmapDay[] => {
+  const today = startOfDay(now);
+  const firstDay = addDays(today, -(weeks - 1) * 7 - new Date(today).getDay());
+  const counts = new Map<number, number>();
+  entries.forEach(entry => {
+    const day = startOfDay(entry.timestamp);
+    counts.set(day, (counts.get(day) || 0) + 1);
+  });
+  const days: HeatmapDay[] = [];
+  for (let day = firstDay; day <= today; day = addDays(day, 1)) days.push({ dayStart: day, count: counts.get(day) || 0 });
+  return days;
+};
+
+export interface BoxRetention {
+  box: number;
+  reviews: number;
+  retained: number; // Answers other than Again
+}
+
+// True retention: how often a card that had already been learned was still remembered, by the box it was in.
+// Learning-step repeats are left out, as they test a card minutes after it was seen.
+export const getRetentionByBox = (entries: ReviewLogEntry[], boxes: number = 5): BoxRetention[] => {
+  const stats = Array.from({ length: boxes }, (_, i) => ({ box: i + 1, reviews: 0, retained: 0 }));
+  entries.forEach(entry => {
+    const stat = entry.learningStep ? undefined : stats[entry.boxBefore - 1];
+    if (!stat) return;
+    stat.reviews++;
+    if (entry.grade !== 'again') stat.retained++;
+  });
+  return stats;
+};
+
+const isScheduled = (state: ReviewState): boolean => state.leitnerBox > 0 && !state.mastered;
+
+// Cards due on each of the next `days` days, both directions; anything overdue counts toward today
+export const getDueForecast = (words: WordData[], days: number = 30, now: number = Date.now()): number[] => {
+  const today = startOfDay(now);
+  const forecast = new Array(days).fill(0);
+  const add = (dueDate: number) => {
+    const offset = Math.max(0, Math.round((startOfDay(dueDate) - today) / DAY_MS));
+    if (offset < days) forecast[offset]++;
+  };
+  words.forEach(word => {
+    if (isScheduled(word)) add(word.nextReviewDate);
+    if (word.reverse && isScheduled(word.reverse)) add(word.reverse.nextReviewDate);
+  });
+  return forecast;
+};
+
+// Time between consecutive answers, with breaks cut out. The first answer after a break
+// only counts the time spent on that card.
+export const getStudyTimeMs = (entries: ReviewLogEntry[]): number => {
+  let total = 0;
+  entries.forEach((entry, i) => {
+    const gap = i > 0 ? entry.timestamp - entries[i - 1].timestamp : Infinity;
+    total += gap <= SESSION_GAP_MS ? gap : Math.min(entry.responseMs, SESSION_GAP_MS);
+  });
+  return total;
+};
+
+export const getHardestWords = (words: WordData[], limit: number = 10): WordData[] => {
+  return words
+    .filter(w => (w.lapses || 0) > 0)
+    .sort((a, b) => (b.lapses || 0) - (a.lapses || 0) || (a.leitnerBox - b.leitnerBox))
+    .slice(0, limit);
+};
+
+export const formatStudyTime = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
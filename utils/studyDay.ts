@@ -0,0 +1,81 @@
+import { AppState } from '../types';
+
+// When one study day ends and the next begins, and what that does to the streak.
+// Days are identified by YYYY-MM-DD keys in local time and compared as calendar dates, so DST
+// changes and travel across time zones never produce fractional or negative days.
+
+export const DEFAULT_DAY_START_HOUR = 4; // A late-night session still counts toward the evening it started in
+export const STREAK_FREEZE_EVERY_DAYS = 7; // A freeze token is earned for each week of streak
+export const MAX_STREAK_FREEZES = 2;
+export const DAY_CHECK_INTERVAL_MS = 60 * 1000; // How often an open tab looks for a new day
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day as YYYY-MM-DD
+export const toDateKey = (date: Date = new Date()): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// The study day a moment belongs to: the calendar day it would be if days started at dayStartHour
+export const getStudyDayKey = (now: number, dayStartHour: number = DEFAULT_DAY_START_HOUR): string => {
+  const date = new Date(now);
+  date.setHours(date.getHours() - dayStartHour);
+  return toDateKey(date);
+};
+
+// Whole days from one key to another; negative when `to` is earlier
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+};
+
+// Older versions stored Date.toDateString() ("Sun Oct 18 2026"); unreadable values count as never opened
+export const normalizeDayKey = (value: string): string => {
+  if (!value || /^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? '' : toDateKey(parsed);
+};
+
+export interface StreakState {
+  streak: number;
+  lastActiveDay: string; // YYYY-MM-DD, empty before the first day
+  freezes: number;
+}
+
+// Moves the streak on to `today`. Missed days in between use up freeze tokens; with too few
+// the streak starts again at 1. A day at or before the last one (same day, clock or time zone
+// moved back) leaves everything as it is.
+export const advanceStreak = (state: StreakState, today: string): StreakState => {
+  if (!state.lastActiveDay) return { ...state, streak: 1, lastActiveDay: today };
+  const gap = daysBetween(state.lastActiveDay, today);
+  if (gap <= 0) return state;
+
+  const missed = gap - 1;
+  if (missed > state.freezes) return { ...state, streak: 1, lastActiveDay: today };
+  const streak = state.streak + 1;
+  const earned = streak % STREAK_FREEZE_EVERY_DAYS === 0 ? 1 : 0;
+  return { streak, lastActiveDay: today, freezes: Math.min(MAX_STREAK_FREEZES, state.freezes - missed + earned) };
+};
+
+// The state for a new study day (streak moved on, daily counters cleared), or null while it's
+// still the same day. Also rewrites a legacy lastLoginDate into a day key.
+export const applyDayRollover = (state: AppState, now: number = Date.now()): AppState | null => {
+  const today = getStudyDayKey(now, state.dayStartHour ?? DEFAULT_DAY_START_HOUR);
+  const lastDay = normalizeDayKey(state.lastLoginDate);
+  if (lastDay && daysBetween(lastDay, today) <= 0) {
+    return lastDay === state.lastLoginDate ? null : { ...state, lastLoginDate: lastDay };
+  }
+
+  const next = advanceStreak({ streak: state.streak, lastActiveDay: lastDay, freezes: state.streakFreezes ?? 0 }, today);
+  return {
+    ...state,
+    streak: next.streak,
+    streakFreezes: next.freezes,
+    lastLoginDate: next.lastActiveDay,
+    dailyProgress: 0,
+    dailyUniqueProgress: 0
+  };
+};
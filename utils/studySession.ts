@@ -0,0 +1,55 @@
+import { ReviewGrade, WordData } from '../types';
+
+// Queue building for flashcard sessions
+
+export const sortByMostOverdue = (words: WordData[]): WordData[] => {
+  return [...words].sort((a, b) => a.nextReviewDate - b.nextReviewDate);
+};
+
+// Today's session: one new word after every `reviewsPerNewWord` reviews, in the order given.
+// Whatever is left of either list once the other runs out follows at the end.
+export const buildTodaySession = (reviews: WordData[], newWords: WordData[], reviewsPerNewWord: number): WordData[] => {
+  const step = Math.max(1, reviewsPerNewWord);
+  const session: WordData[] = [];
+  let r = 0;
+  let n = 0;
+  while (r < reviews.length || n < newWords.length) {
+    session.push(...reviews.slice(r, r + step));
+    r += step;
+    if (n < newWords.length) session.push(newWords[n++]);
+  }
+  return session;
+};
+
+// In-session learning steps: a forgotten or brand-new card comes back after each step until it
+// has been recalled past the last one. Only the card's first answer in a session is scheduled;
+// repeats during the steps are logged without moving it, so graduating keeps that schedule.
+export const LEARNING_STEPS_MS = [60 * 1000, 10 * 60 * 1000];
+
+export interface LearningCard {
+  word: WordData;
+  step: number; // Index into LEARNING_STEPS_MS
+  dueAt: number;
+}
+
+// The step a card moves to after an answer, or null when it's done for this session.
+// `step` is the card's current step, undefined if it isn't in the learning steps yet.
+export const nextLearningStep = (step: number | undefined, grade: ReviewGrade, isNew: boolean): number | null => {
+  if (grade === 'again') return 0;
+  if (grade === 'easy') return null;
+  if (step === undefined) {
+    if (!isNew) return null; // A review recalled on the first try
+    return grade === 'good' ? 1 : 0;
+  }
+  if (grade === 'hard') return step;
+  return step + 1 < LEARNING_STEPS_MS.length ? step + 1 : null;
+};
+
+export const formatLearningStep = (step: number): string => `in ${Math.round(LEARNING_STEPS_MS[step] / 60000)} min`;
+
+// The waiting card to show next: the first whose step is up, or the soonest one early once the
+// rest of the session is done
+export const pickLearningCard = (waiting: LearningCard[], now: number, queueDone: boolean): LearningCard | null => {
+  const soonest = waiting.reduce<LearningCard | null>((first, card) => !first || card.dueAt < first.dueAt ? card : first, null);
+  return soonest && (soonest.dueAt <= now || queueDone) ? soonest : null;
+};
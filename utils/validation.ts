@@ -0,0 +1,274 @@
+import { ExampleSentence, PracticeBlank, PracticeItem, RcQuestion, ReadingArticle, RcQuestionType, WordCluster, WordContext, WordData } from '../types';
+import { splitSentences } from './comprehension';
+
+// The only fields a dictionary source is allowed to write onto a word
+export type WordDetails = Pick<WordData, 'definitions' | 'examples' | 'synonyms' | 'etymology' | 'aiMnemonic'>;
+
+export interface ValidatedWordDetails {
+  details: WordDetails;
+  isPartial: boolean; // Something was missing or had to be dropped; worth refetching later
+  issues: string[];
+}
+
+const LIMITS = {
+  definitions: 6,
+  examples: 5,
+  synonyms: 12,
+  contextType: 60,
+  definition: 500,
+  exampleText: 400,
+  exampleSource: 100,
+  synonym: 40,
+  etymology: 600,
+  aiMnemonic: 600,
+  passage: 1200,
+  option: 40,
+  explanation: 800,
+  groupLabel: 60,
+  readingTitle: 120,
+  readingText: 6000,
+  rcPrompt: 400,
+  rcOption: 300,
+  articleSummary: 500,
+  articleSource: 100
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Collapses whitespace and caps length, returning '' for anything that isn't a string
+const cleanString = (value: unknown, maxLength: number): string => {
+  if (typeof value !== 'string') return '';
+  const text = value.replace(/\s+/g, ' ').trim();
+  return text.length > maxLength ? text.slice(0, maxLength - 1).trimEnd() + '…' : text;
+};
+
+const cleanUrl = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Keeps the valid entries of an array field, noting how many were thrown away
+const cleanList = <T,>(value: unknown, field: string, max: number, issues: string[], clean: (item: unknown) => T | null): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${field} is not a list`);
+    return [];
+  }
+  const items = value.map(clean).filter((item): item is T => item !== null);
+  if (items.length < value.length) issues.push(`dropped ${value.length - items.length} invalid ${field}`);
+  if (items.length > max) issues.push(`trimmed ${field} to ${max}`);
+  return items.slice(0, max);
+};
+
+export const validateWordDetails = (raw: unknown): ValidatedWordDetails => {
+  const issues: string[] = [];
+  const source = isRecord(raw) ? raw : {};
+  if (!isRecord(raw)) issues.push('response is not an object');
+
+  const definitions = cleanList<WordContext>(source.definitions, 'definitions', LIMITS.definitions, issues, item => {
+    if (!isRecord(item)) return null;
+    const definition = cleanString(item.definition, LIMITS.definition);
+    if (!definition) return null;
+    return { contextType: cleanString(item.contextType, LIMITS.contextType) || 'General', definition };
+  });
+
+  const examples = cleanList<ExampleSentence>(source.examples, 'examples', LIMITS.examples, issues, item => {
+    if (!isRecord(item)) return null;
+    const text = cleanString(item.text, LIMITS.exampleText);
+    if (!text) return null;
+    const url = cleanUrl(item.url);
+    return { text, source: cleanString(item.source, LIMITS.exampleSource) || 'Unknown', ...(url ? { url } : {}) };
+  });
+
+  const seenSynonyms = new Set<string>();
+  const synonyms = cleanList<string>(source.synonyms, 'synonyms', LIMITS.synonyms, issues, item => {
+    const synonym = cleanString(item, LIMITS.synonym);
+    if (!synonym || seenSynonyms.has(synonym.toLowerCase())) return null;
+    seenSynonyms.add(synonym.toLowerCase());
+    return synonym;
+  });
+
+  const etymology = cleanString(source.etymology, LIMITS.etymology);
+  const aiMnemonic = cleanString(source.aiMnemonic, LIMITS.aiMnemonic);
+
+  const missing = [
+    definitions.length === 0 && 'definitions',
+    examples.length === 0 && 'examples',
+    !etymology && 'etymology',
+    !aiMnemonic && 'aiMnemonic'
+  ].filter(Boolean);
+  if (missing.length > 0) issues.push(`missing ${missing.join(', ')}`);
+
+  return {
+    details: { definitions, examples, synonyms, etymology, aiMnemonic },
+    isPartial: issues.length > 0,
+    issues
+  };
+};
+
+// Merges validated details onto a word. Fields a refetch came back without keep their old value.
+export const applyWordDetails = (word: WordData, validated: ValidatedWordDetails): WordData => {
+  const { details, isPartial } = validated;
+  return {
+    ...word,
+    definitions: details.definitions.length > 0 ? details.definitions : word.definitions,
+    examples: details.examples.length > 0 ? details.examples : word.examples,
+    synonyms: details.synonyms.length > 0 ? details.synonyms : word.synonyms,
+    etymology: details.etymology || word.etymology,
+    aiMnemonic: details.aiMnemonic || word.aiMnemonic,
+    detailsIncomplete: isPartial
+  };
+};
+
+// --- Practice items ---
+
+// Option counts the GRE uses for each item shape
+const practiceShape = (item: Pick<PracticeItem, 'type' | 'blanks'>): { options: number; correct: number } | null => {
+  if (item.type === 'sentence-equivalence') return item.blanks.length === 1 ? { options: 6, correct: 2 } : null;
+  if (item.blanks.length === 1) return { options: 5, correct: 1 };
+  if (item.blanks.length <= 3) return { options: 3, correct: 1 };
+  return null;
+};
+
+const cleanPracticeItem = (raw: unknown, wordIds: Map<string, string>): PracticeItem | null => {
+  if (!isRecord(raw)) return null;
+  const type = raw.type === 'text-completion' || raw.type === 'sentence-equivalence' ? raw.type : null;
+  const passage = cleanString(raw.passage, LIMITS.passage);
+  const explanation = cleanString(raw.explanation, LIMITS.explanation);
+  if (!type || !passage || !explanation || !Array.isArray(raw.blanks) || raw.blanks.length === 0) return null;
+
+  const blanks: PracticeBlank[] = [];
+  for (const rawBlank of raw.blanks) {
+    if (!isRecord(rawBlank) || !Array.isArray(rawBlank.options) || !Array.isArray(rawBlank.correct)) return null;
+    const options = rawBlank.options.map(o => cleanString(o, LIMITS.option));
+    const correct = [...new Set(rawBlank.correct)];
+    if (options.some(o => !o) || new Set(options.map(o => o.toLowerCase())).size !== options.length) return null;
+    if (!correct.every((i): i is number => Number.isInteger(i) && i >= 0 && i < options.length)) return null;
+    blanks.push({
+      options,
+      correct,
+      wordIds: correct.map(i => wordIds.get(options[i].toLowerCase())).filter((id): id is string => !!id)
+    });
+  }
+
+  const shape = practiceShape({ type, blanks });
+  if (!shape || blanks.some(b => b.options.length !== shape.options || b.correct.length !== shape.correct)) return null;
+  // Each blank marker appears exactly once
+  if (blanks.some((_, i) => passage.split(`[${i + 1}]`).length !== 2)) return null;
+  // Only worth asking if it exercises a word the learner is studying
+  if (!blanks.some(b => b.wordIds.length > 0)) return null;
+
+  return { type, passage, blanks, explanation };
+};
+
+// Keeps the generated items that are well-formed GRE items testing at least one library word.
+// Correct answers are matched to `words` by spelling to decide which words get scheduler feedback.
+export const validatePracticeItems = (raw: unknown, words: WordData[]): { items: PracticeItem[]; dropped: number } => {
+  const list = isRecord(raw) && Array.isArray(raw.items) ? raw.items : [];
+  const wordIds = new Map(words.map(w => [w.word.trim().toLowerCase(), w.id]));
+  const items = list.map(item => cleanPracticeItem(item, wordIds)).filter((item): item is PracticeItem => item !== null);
+  return { items, dropped: list.length - items.length };
+};
+
+// Maps AI word groups back onto library words. Unknown spellings are ignored, a word stays in the
+// first group that claims it, and groups left with fewer than two words are dropped.
+export const validateWordGroups = (raw: unknown, words: WordData[]): { groups: WordCluster[]; dropped: number } => {
+  const list = isRecord(raw) && Array.isArray(raw.groups) ? raw.groups : [];
+  const wordIds = new Map(words.map(w => [w.word.trim().toLowerCase(), w.id]));
+  const claimed = new Set<string>();
+  const groups: WordCluster[] = [];
+  list.forEach(group => {
+    if (!isRecord(group) || !Array.isArray(group.words)) return;
+    const label = cleanString(group.label, LIMITS.groupLabel);
+    const ids = group.words
+      .map(w => (typeof w === 'string' ? wordIds.get(w.trim().toLowerCase()) : undefined))
+      .filter((id): id is string => !!id && !claimed.has(id));
+    const unique = [...new Set(ids)];
+    if (!label || unique.length < 2) return;
+    unique.forEach(id => claimed.add(id));
+    groups.push({ id: `ai-${unique[0]}`, label, wordIds: unique, source: 'ai' });
+  });
+  return { groups, dropped: list.length - groups.length };
+};
+
+// Whitespace inside paragraphs is collapsed but blank lines between them are kept
+export const validateReadingPassage = (raw: unknown): { title: string; text: string } | null => {
+  if (!isRecord(raw) || typeof raw.passage !== 'string') return null;
+  const text = raw.passage
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n')
+    .slice(0, LIMITS.readingText);
+  if (!text) return null;
+  return { title: cleanString(raw.title, LIMITS.readingTitle) || 'Untitled Passage', text };
+};
+
+// --- Reading comprehension ---
+
+const RC_TYPES: RcQuestionType[] = ['main-idea', 'inference', 'vocab-in-context', 'select-in-passage'];
+
+const sentenceKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const cleanRcQuestion = (raw: unknown, sentenceKeys: string[]): RcQuestion | null => {
+  if (!isRecord(raw)) return null;
+  const type = RC_TYPES.find(t => t === raw.type);
+  const prompt = cleanString(raw.prompt, LIMITS.rcPrompt);
+  const explanation = cleanString(raw.explanation, LIMITS.explanation);
+  if (!type || !prompt || !explanation) return null;
+
+  // The quoted sentence has to be one we can point at in the passage
+  if (type === 'select-in-passage') {
+    const key = typeof raw.answerSentence === 'string' ? sentenceKey(raw.answerSentence) : '';
+    const index = key ? sentenceKeys.findIndex(s => s === key) : -1;
+    return index === -1 ? null : { type, prompt, options: [], correct: [index], explanation };
+  }
+
+  if (!Array.isArray(raw.options) || !Array.isArray(raw.correct)) return null;
+  const options = raw.options.map(o => cleanString(o, LIMITS.rcOption));
+  const correct = [...new Set(raw.correct)];
+  if (options.some(o => !o) || new Set(options.map(o => o.toLowerCase())).size !== options.length) return null;
+  if (!correct.every((i): i is number => Number.isInteger(i) && i >= 0 && i < options.length)) return null;
+  // Five options with one answer, or "select all that apply" with three options and one to three answers
+  const isSingle = options.length === 5 && correct.length === 1;
+  const isSelectAll = options.length === 3 && correct.length >= 1;
+  if (!isSingle && !isSelectAll) return null;
+  return { type, prompt, options, correct: correct.sort((a, b) => a - b), explanation };
+};
+
+// Keeps the well-formed questions; select-in-passage answers are resolved to sentence indexes
+// of splitSentences(passage).
+export const validateRcQuestions = (raw: unknown, passage: string): { questions: RcQuestion[]; dropped: number } => {
+  const list = isRecord(raw) && Array.isArray(raw.questions) ? raw.questions : [];
+  const sentenceKeys = splitSentences(passage).map(sentenceKey);
+  const questions = list.map(q => cleanRcQuestion(q, sentenceKeys)).filter((q): q is RcQuestion => q !== null);
+  return { questions, dropped: list.length - questions.length };
+};
+
+// --- Daily readings ---
+
+// Articles need a title and a real http(s) link; duplicates by URL are dropped
+export const validateReadingArticles = (raw: unknown): ReadingArticle[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw.flatMap(item => {
+    if (!isRecord(item)) return [];
+    const title = cleanString(item.title, LIMITS.readingTitle);
+    const url = cleanUrl(item.url);
+    if (!title || !url || seen.has(url)) return [];
+    seen.add(url);
+    return [{
+      title,
+      url,
+      summary: cleanString(item.summary, LIMITS.articleSummary),
+      source: cleanString(item.source, LIMITS.articleSource) || new URL(url).hostname
+    }];
+  });
+};